@@ -1,22 +1,269 @@
 // Service Worker for M3U8/HLS caching
 const CACHE_NAME = 'hls-cache-v1';
-const MAX_CACHE_SIZE = 50 * 1024 * 1024; // 50MB 最大缓存
+// 离线下载的视频（不过期、不参与大小淘汰）
+const OFFLINE_CACHE_NAME = 'hls-offline-v1';
+// 页面本身（离线时也能打开播放器）
+const SHELL_CACHE_NAME = 'app-shell-v1';
+const MAX_CACHE_SIZE = 50 * 1024 * 1024; // 50MB 最小缓存上限（无法获取存储配额时使用）
+const MAX_DEFAULT_CACHE_SIZE = 500 * 1024 * 1024; // 根据剩余空间计算默认上限时不超过 500MB
 const CACHE_EXPIRY = 2 * 60 * 60 * 1000; // 2小时过期（防止播放地址失效）
 
-// 需要缓存的文件类型
-const CACHEABLE_EXTENSIONS = ['.m3u8', '.ts', '.mp4', '.webm'];
+// 需要缓存的文件类型（按 URL 路径的扩展名匹配）
+const CACHEABLE_EXTENSIONS = ['.m3u8', '.ts', '.mp4', '.webm', '.m4s', '.aac', '.key'];
+// 扩展名不匹配时按响应的 Content-Type 判断
+const CACHEABLE_CONTENT_TYPES = [
+  'application/vnd.apple.mpegurl',
+  'application/x-mpegurl',
+  'audio/mpegurl',
+  'video/mp2t',
+  'video/iso.segment',
+  'video/mp4',
+  'audio/mp4',
+  'audio/aac',
+  'video/webm'
+];
+const PLAYLIST_CONTENT_TYPES = CACHEABLE_CONTENT_TYPES.slice(0, 3);
+// 默认预加载播放位置之后的分片数
+const PREFETCH_SEGMENTS = 5;
+
+// 缓存索引（url、大小、缓存时间、所属视频），统计和淘汰时不需要读取响应内容
+const INDEX_DB_NAME = 'sw-cache-index';
+const INDEX_DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const SETTINGS_STORE = 'settings';
+const POLICY_KEY = 'cachePolicy';
+
+// 当前缓存策略，页面可以通过 SET_CACHE_POLICY 消息修改
+let cachePolicy = {
+  maxCacheSize: MAX_CACHE_SIZE,
+  cacheExpiry: CACHE_EXPIRY,
+  cacheableExtensions: CACHEABLE_EXTENSIONS,
+  cacheableContentTypes: CACHEABLE_CONTENT_TYPES,
+  prefetchSegments: PREFETCH_SEGMENTS
+};
+// 页面设置的策略（保存在 IndexedDB，Service Worker 重启后仍然有效）
+let policyOverrides = {};
+
+// 每个页面正在播放的视频（clientId -> 视频 URL），用于记录缓存属于哪个视频
+const clientVideos = new Map();
+// 每个页面当前视频的请求来源统计（在线缓存、离线下载、网络），用于调试面板
+const clientCacheStats = new Map();
+
+function recordCacheStat(clientId, url, source) {
+  if (!clientId) return;
+  let stats = clientCacheStats.get(clientId);
+  if (!stats) {
+    stats = { cache: 0, offline: 0, network: 0, last: null };
+    clientCacheStats.set(clientId, stats);
+  }
+  stats[source]++;
+  stats.last = { url, source, time: Date.now() };
+}
+
+let indexDbPromise = null;
+
+function openIndexDb() {
+  if (indexDbPromise) return indexDbPromise;
+
+  indexDbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(INDEX_DB_NAME, INDEX_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const store = db.createObjectStore(ENTRY_STORE, { keyPath: 'url' });
+      store.createIndex('time', 'time');
+      store.createIndex('video', 'video');
+      db.createObjectStore(SETTINGS_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  indexDbPromise.catch(() => {
+    indexDbPromise = null;
+  });
+  return indexDbPromise;
+}
+
+function idbRequest(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function idbStore(storeName, mode) {
+  const db = await openIndexDb();
+  return db.transaction(storeName, mode).objectStore(storeName);
+}
+
+async function getIndexEntries() {
+  const store = await idbStore(ENTRY_STORE, 'readonly');
+  return idbRequest(store.getAll());
+}
+
+async function putIndexEntry(entry) {
+  const store = await idbStore(ENTRY_STORE, 'readwrite');
+  await idbRequest(store.put(entry));
+}
+
+async function deleteIndexEntries(urls) {
+  if (urls.length === 0) return;
+  const store = await idbStore(ENTRY_STORE, 'readwrite');
+  await Promise.all(urls.map(url => idbRequest(store.delete(url))));
+}
+
+async function clearIndexEntries() {
+  const store = await idbStore(ENTRY_STORE, 'readwrite');
+  await idbRequest(store.clear());
+}
+
+// 默认缓存上限：剩余空间的 10%，介于 50MB 和 500MB 之间
+async function getDefaultMaxCacheSize() {
+  try {
+    const { quota = 0, usage = 0 } = await self.navigator.storage.estimate();
+    const free = quota - usage;
+    if (free <= 0) return MAX_CACHE_SIZE;
+    return Math.min(Math.max(free * 0.1, MAX_CACHE_SIZE), MAX_DEFAULT_CACHE_SIZE);
+  } catch {
+    return MAX_CACHE_SIZE;
+  }
+}
+
+async function applyCachePolicy() {
+  cachePolicy = {
+    maxCacheSize: policyOverrides.maxCacheSize ?? await getDefaultMaxCacheSize(),
+    cacheExpiry: policyOverrides.cacheExpiry ?? CACHE_EXPIRY,
+    cacheableExtensions: policyOverrides.cacheableExtensions ?? CACHEABLE_EXTENSIONS,
+    cacheableContentTypes: policyOverrides.cacheableContentTypes ?? CACHEABLE_CONTENT_TYPES,
+    prefetchSegments: policyOverrides.prefetchSegments ?? PREFETCH_SEGMENTS
+  };
+  return cachePolicy;
+}
+
+async function loadCachePolicy() {
+  try {
+    const store = await idbStore(SETTINGS_STORE, 'readonly');
+    policyOverrides = (await idbRequest(store.get(POLICY_KEY))) || {};
+  } catch (error) {
+    console.warn('[SW] Failed to load cache policy:', error);
+  }
+  return applyCachePolicy();
+}
+
+let policyReady = loadCachePolicy();
+
+// 校验页面传入的策略，字段为 null 时恢复默认值
+function normalizePolicy(policy) {
+  const overrides = { ...policyOverrides };
+  const isPositive = value => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+  for (const key of ['maxCacheSize', 'cacheExpiry']) {
+    if (policy[key] === null) {
+      delete overrides[key];
+    } else if (policy[key] !== undefined) {
+      if (!isPositive(policy[key])) throw new Error(`Invalid ${key}: ${policy[key]}`);
+      overrides[key] = policy[key];
+    }
+  }
+
+  if (policy.prefetchSegments === null) {
+    delete overrides.prefetchSegments;
+  } else if (policy.prefetchSegments !== undefined) {
+    if (!Number.isInteger(policy.prefetchSegments) || policy.prefetchSegments < 0) {
+      throw new Error(`Invalid prefetchSegments: ${policy.prefetchSegments}`);
+    }
+    overrides.prefetchSegments = policy.prefetchSegments;
+  }
+
+  for (const key of ['cacheableExtensions', 'cacheableContentTypes']) {
+    if (policy[key] === null) {
+      delete overrides[key];
+    } else if (policy[key] !== undefined) {
+      if (!Array.isArray(policy[key]) || policy[key].some(item => typeof item !== 'string' || !item.trim())) {
+        throw new Error(`${key} must be a list of strings`);
+      }
+      overrides[key] = policy[key].map(item => item.trim().toLowerCase());
+    }
+  }
+  if (overrides.cacheableExtensions) {
+    overrides.cacheableExtensions = overrides.cacheableExtensions.map(ext => ext.startsWith('.') ? ext : `.${ext}`);
+  }
+
+  return overrides;
+}
+
+async function setCachePolicy(policy) {
+  await policyReady;
+  policyOverrides = normalizePolicy(policy || {});
+  const store = await idbStore(SETTINGS_STORE, 'readwrite');
+  await idbRequest(store.put(policyOverrides, POLICY_KEY));
+  policyReady = applyCachePolicy();
+  const result = await policyReady;
+  // 上限变小时立即清理
+  await manageCacheSize();
+  return result;
+}
+
+// 获取 URL 路径的扩展名（不包含查询参数），如 .ts
+function getPathExtension(url) {
+  try {
+    const fileName = new URL(url).pathname.split('/').pop();
+    const index = fileName.lastIndexOf('.');
+    return index > 0 ? fileName.slice(index).toLowerCase() : '';
+  } catch {
+    return '';
+  }
+}
+
+function getContentType(response) {
+  return (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+}
 
 // 检查URL是否应该被缓存
 function shouldCache(url) {
-  return CACHEABLE_EXTENSIONS.some(ext => url.includes(ext));
+  return cachePolicy.cacheableExtensions.includes(getPathExtension(url));
+}
+
+// 扩展名或 Content-Type 匹配时缓存响应
+function shouldCacheResponse(url, response) {
+  return shouldCache(url) || cachePolicy.cacheableContentTypes.includes(getContentType(response));
+}
+
+function isPlaylistResponse(url, response) {
+  return getPathExtension(url) === '.m3u8' || PLAYLIST_CONTENT_TYPES.includes(getContentType(response));
 }
 
-// 添加时间戳到缓存响应
-async function cacheWithTimestamp(cache, request, response) {
+// 直播的 media playlist（没有 EXT-X-ENDLIST）每隔几秒就会更新，不能使用缓存
+async function isLivePlaylist(response) {
+  try {
+    const text = await response.text();
+    return text.includes('#EXTINF') && !text.includes('#EXT-X-ENDLIST');
+  } catch {
+    return false;
+  }
+}
+
+// 获取响应大小：优先使用 Content-Length，没有时读取一次已缓存的内容
+async function getResponseSize(cache, request, response) {
+  const contentLength = parseInt(response.headers.get('content-length'));
+  if (contentLength >= 0) return contentLength;
+
+  try {
+    const cached = await cache.match(request);
+    return cached ? (await cached.blob()).size : 0;
+  } catch (error) {
+    console.warn('[SW] Failed to get cached size:', error);
+    return 0;
+  }
+}
+
+// 添加时间戳到缓存响应，并写入缓存索引
+async function cacheWithTimestamp(cache, request, response, video) {
+  const time = Date.now();
   try {
     // 创建新的 Headers 对象，包含原始响应的所有 headers
     const headers = new Headers(response.headers);
-    headers.set('sw-cache-time', Date.now().toString());
+    headers.set('sw-cache-time', time.toString());
 
     // iOS Safari 兼容：直接使用 response.body stream，避免 blob 转换
     const responseToCache = new Response(response.body, {
@@ -33,8 +280,16 @@ async function cacheWithTimestamp(cache, request, response) {
       await cache.put(request, response);
     } catch (fallbackError) {
       console.error('[SW] Fallback cache also failed:', fallbackError);
+      return;
     }
   }
+
+  try {
+    const size = await getResponseSize(cache, request, response);
+    await putIndexEntry({ url: request.url, size, time, video: video || null });
+  } catch (error) {
+    console.warn('[SW] Failed to update cache index:', error);
+  }
 }
 
 // 检查缓存是否过期
@@ -43,56 +298,53 @@ function isCacheExpired(response) {
   if (!cacheTime) return true;
 
   const age = Date.now() - parseInt(cacheTime);
-  return age > CACHE_EXPIRY;
+  return age > cachePolicy.cacheExpiry;
 }
 
-// 管理缓存大小
+// 管理缓存大小（只读取索引，不读取响应内容）
 async function manageCacheSize() {
   const cache = await caches.open(CACHE_NAME);
-  const keys = await cache.keys();
-
-  let totalSize = 0;
-  const items = [];
+  const entries = await getIndexEntries();
+  const now = Date.now();
+  const { maxCacheSize, cacheExpiry } = cachePolicy;
 
-  for (const request of keys) {
-    const response = await cache.match(request);
-    if (response) {
-      let size = 0;
-      try {
-        // 尝试获取 blob 大小（iOS Safari 可能失败）
-        const blob = await response.blob();
-        size = blob.size;
-      } catch (error) {
-        // iOS 降级方案：使用 Content-Length header 估算大小
-        const contentLength = response.headers.get('content-length');
-        size = contentLength ? parseInt(contentLength) : 0;
-        console.warn('[SW] Failed to get blob size, using content-length:', size);
-      }
+  // 过期的直接删除
+  const deleted = entries.filter(entry => now - entry.time > cacheExpiry);
+  const items = entries.filter(entry => now - entry.time <= cacheExpiry);
+  let totalSize = items.reduce((sum, entry) => sum + entry.size, 0);
 
-      const cacheTime = response.headers.get('sw-cache-time') || '0';
+  // 如果超过限制，删除最旧的条目
+  if (totalSize > maxCacheSize) {
+    items.sort((a, b) => a.time - b.time);
 
-      items.push({
-        request,
-        size,
-        time: parseInt(cacheTime)
-      });
+    for (const item of items) {
+      if (totalSize <= maxCacheSize * 0.8) break; // 清理到80%
 
-      totalSize += size;
+      deleted.push(item);
+      totalSize -= item.size;
     }
   }
 
-  // 如果超过限制，删除最旧的条目
-  if (totalSize > MAX_CACHE_SIZE) {
-    items.sort((a, b) => a.time - b.time);
+  for (const entry of deleted) {
+    await cache.delete(entry.url);
+    // console.log('[SW] Deleted old cache:', entry.url);
+  }
+  await deleteIndexEntries(deleted.map(entry => entry.url));
+}
 
-    for (const item of items) {
-      if (totalSize <= MAX_CACHE_SIZE * 0.8) break; // 清理到80%
+// 删除索引中没有记录的缓存（旧版本留下的缓存或写入索引失败的条目）
+async function reconcileCacheIndex() {
+  const cache = await caches.open(CACHE_NAME);
+  const [keys, entries] = await Promise.all([cache.keys(), getIndexEntries()]);
+  const indexed = new Set(entries.map(entry => entry.url));
+  const cachedUrls = new Set(keys.map(request => request.url));
 
-      await cache.delete(item.request);
-      totalSize -= item.size;
-      // console.log('[SW] Deleted old cache:', item.request.url);
+  for (const request of keys) {
+    if (!indexed.has(request.url)) {
+      await cache.delete(request);
     }
   }
+  await deleteIndexEntries(entries.filter(entry => !cachedUrls.has(entry.url)).map(entry => entry.url));
 }
 
 // 安装事件
@@ -108,82 +360,193 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME) {
+          if (![CACHE_NAME, OFFLINE_CACHE_NAME, SHELL_CACHE_NAME].includes(cacheName)) {
             // console.log('[SW] Deleting old cache:', cacheName);
             return caches.delete(cacheName);
           }
         })
       );
-    }).then(() => self.clients.claim())
+    }).then(() => reconcileCacheIndex().catch(error => {
+      console.warn('[SW] Failed to reconcile cache index:', error);
+    })).then(() => self.clients.claim())
   );
 });
 
+// 页面、脚本、样式等同源资源
+function isAppShellRequest(request) {
+  if (new URL(request.url).origin !== self.location.origin) return false;
+  return request.mode === 'navigate' || ['script', 'style', 'font', 'image', 'manifest'].includes(request.destination);
+}
+
+// 页面资源网络优先，离线时使用缓存（页面地址带查询参数，匹配时忽略）
+async function handleAppShell(request) {
+  const cache = await caches.open(SHELL_CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// 按 Range 请求头截取已缓存的完整响应（EXT-X-BYTERANGE 分片）
+async function createRangeResponse(response, range) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  if (!match || (!match[1] && !match[2])) return response;
+
+  const blob = await response.blob();
+  const size = blob.size;
+  let start;
+  let end;
+  if (match[1]) {
+    start = parseInt(match[1]);
+    end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1;
+  } else {
+    start = Math.max(size - parseInt(match[2]), 0);
+    end = size - 1;
+  }
+
+  if (start > end || start >= size) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+
+  const headers = new Headers(response.headers);
+  headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+  headers.set('Content-Length', String(end - start + 1));
+  return new Response(blob.slice(start, end + 1), { status: 206, statusText: 'Partial Content', headers });
+}
+
+// 查找离线下载的资源
+async function matchOffline(request) {
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  const response = await cache.match(request.url);
+  if (!response) return null;
+
+  const range = request.headers.get('range');
+  return range ? createRangeResponse(response, range) : response;
+}
+
 // 拦截请求
 self.addEventListener('fetch', (event) => {
   const { request } = event;
-  const url = request.url;
 
-  // 只缓存视频相关资源
-  if (!shouldCache(url)) {
-    return event.respondWith(fetch(request));
+  if (request.method !== 'GET') return;
+
+  if (isAppShellRequest(request)) {
+    return event.respondWith(handleAppShell(request));
   }
 
+  // 已离线下载的资源直接使用，否则走在线缓存逻辑
   event.respondWith(
-    caches.open(CACHE_NAME).then(async (cache) => {
-      // 尝试从缓存获取
-      const cachedResponse = await cache.match(request);
-
-      if (cachedResponse) {
-        // 缓存存在但未过期，直接使用并后台更新
-        if (!isCacheExpired(cachedResponse)) {
-          // console.log('[SW] Cache hit:', url);
-
-          if (url.includes('.m3u8')) {
-            fetch(request).then(async (response) => {
-              if (response.ok) {
-                await cacheWithTimestamp(cache, request, response);
-                // console.log('[SW] Background updated m3u8:', url);
-              }
-            }).catch(() => {});
-          }
+    matchOffline(request).then((response) => {
+      if (!response) return handleRequest(request, event.clientId);
+      recordCacheStat(event.clientId, request.url, 'offline');
+      return response;
+    })
+  );
+});
 
-          return cachedResponse;
-        }
+// 在线播放时的缓存策略
+async function handleRequest(request, clientId) {
+  const url = request.url;
+  await policyReady;
+
+  // Range 请求（如 MP4 拖动）直接走网络，Cache API 不能缓存 206 响应
+  if (request.headers.has('range')) {
+    recordCacheStat(clientId, url, 'network');
+    return fetch(request);
+  }
+
+  const cache = await caches.open(CACHE_NAME);
+  const video = clientVideos.get(clientId);
+
+  // 尝试从缓存获取（扩展名不在列表中的资源也可能按 Content-Type 缓存过）
+  let cachedResponse = await cache.match(request);
 
-        // 缓存已过期则主动删除，避免占用空间
-        // console.log('[SW] Cache expired, deleting:', url);
-        await cache.delete(request);
+  if (cachedResponse) {
+    const playlist = isPlaylistResponse(url, cachedResponse);
+    if (playlist && await isLivePlaylist(cachedResponse.clone())) {
+      // 之前缓存的直播 playlist 已经过时，从网络获取，网络失败时也不使用
+      cachedResponse = undefined;
+    } else if (!isCacheExpired(cachedResponse)) {
+      // 缓存存在但未过期，直接使用并后台更新
+      // console.log('[SW] Cache hit:', url);
+
+      if (playlist) {
+        rememberPlaylist(url, cachedResponse.clone());
+        fetch(request).then(async (response) => {
+          if (!response.ok) return;
+          if (await isLivePlaylist(response.clone())) {
+            await cache.delete(request);
+            await deleteIndexEntries([url]);
+          } else {
+            await cacheWithTimestamp(cache, request, response, video);
+            // console.log('[SW] Background updated m3u8:', url);
+          }
+        }).catch(() => {});
       }
 
-      // 从网络获取
-      try {
-        // console.log('[SW] Fetching from network:', url);
-        const networkResponse = await fetch(request);
+      recordCacheStat(clientId, url, 'cache');
+      return cachedResponse;
+    }
 
-        if (networkResponse.ok) {
-          // 缓存成功的响应
-          await cacheWithTimestamp(cache, request, networkResponse.clone());
-          // console.log('[SW] Cached:', url);
+    // 缓存已过期（或是直播 playlist）则主动删除，避免占用空间
+    // console.log('[SW] Cache expired, deleting:', url);
+    await cache.delete(request);
+  }
 
-          // 异步管理缓存大小
-          manageCacheSize().catch(console.error);
-        }
+  // 正在预加载的分片，等预加载完成后直接使用缓存，避免重复下载
+  const pending = prefetchRequests.get(url);
+  if (pending) {
+    await pending.catch(() => {});
+    const prefetched = await cache.match(request);
+    if (prefetched) {
+      recordCacheStat(clientId, url, 'cache');
+      return prefetched;
+    }
+  }
 
-        return networkResponse;
-      } catch (error) {
-        console.error('[SW] Fetch failed:', url, error);
+  // 从网络获取
+  try {
+    // console.log('[SW] Fetching from network:', url);
+    const networkResponse = await fetch(request);
+    recordCacheStat(clientId, url, 'network');
 
-        // 如果网络失败但有过期缓存，返回过期缓存
-        if (cachedResponse) {
-          // console.log('[SW] Returning expired cache:', url);
-          return cachedResponse;
-        }
+    const livePlaylist = networkResponse.ok && isPlaylistResponse(url, networkResponse)
+      && await isLivePlaylist(networkResponse.clone());
 
-        throw error;
-      }
-    })
-  );
-});
+    if (networkResponse.status === 200 && !livePlaylist && shouldCacheResponse(url, networkResponse)) {
+      // 缓存成功的响应（直播 playlist 除外）
+      await cacheWithTimestamp(cache, request, networkResponse.clone(), video);
+      // console.log('[SW] Cached:', url);
+
+      // 异步管理缓存大小
+      manageCacheSize().catch(console.error);
+    }
+
+    if (networkResponse.ok && isPlaylistResponse(url, networkResponse)) {
+      rememberPlaylist(url, networkResponse.clone());
+    }
+
+    return networkResponse;
+  } catch (error) {
+    console.error('[SW] Fetch failed:', url, error);
+
+    // 如果网络失败但有过期缓存，返回过期缓存
+    if (cachedResponse) {
+      // console.log('[SW] Returning expired cache:', url);
+      recordCacheStat(clientId, url, 'cache');
+      return cachedResponse;
+    }
+
+    throw error;
+  }
+}
 
 // 提取URL的基础路径（用于匹配同一视频的所有分片）
 function getVideoBasePath(url) {
@@ -198,47 +561,792 @@ function getVideoBasePath(url) {
   }
 }
 
-// 清理指定视频的所有缓存
+// 清理指定视频的所有缓存：按索引中记录的所属视频匹配，没有记录所属视频的按目录匹配
 async function clearVideoCache(videoUrl) {
   const cache = await caches.open(CACHE_NAME);
-  const keys = await cache.keys();
+  const entries = await getIndexEntries();
   const basePath = getVideoBasePath(videoUrl);
 
-  let deletedCount = 0;
+  const matched = entries.filter((entry) => {
+    if (entry.video) return entry.video === videoUrl;
+    return entry.url.includes(basePath) || getVideoBasePath(entry.url) === basePath;
+  });
+
   let deletedSize = 0;
+  for (const entry of matched) {
+    await cache.delete(entry.url);
+    deletedSize += entry.size;
+    // console.log('[SW] Deleted cache for:', entry.url);
+  }
+  await deleteIndexEntries(matched.map(entry => entry.url));
+
+  return { deletedCount: matched.length, deletedSize };
+}
+
+// ==================== 请求策略 ====================
+
+// 每个页面的请求策略（clientId -> { headers, query, rewrites, scope }），由页面的 SET_REQUEST_POLICY 消息设置
+// 可能包含 token，只保存在内存中
+const clientRequestPolicies = new Map();
+
+// 与 src/utils/requestPolicy.ts 的 applyRequestPolicy 一致：先执行改写规则，再添加请求头和查询参数
+// kind 为 playlist、segment 或 key，返回 { url, headers }
+function applyRequestPolicy(policy, url, kind) {
+  if (!policy) return { url, headers: {} };
+
+  let target = url;
+  for (const rule of policy.rewrites || []) {
+    if (rule.types && !rule.types.includes(kind)) continue;
+    try {
+      target = target.replace(new RegExp(rule.pattern), rule.replacement);
+    } catch {
+      // 无效的规则在页面中已经过滤，这里忽略
+    }
+  }
+
+  try {
+    if (policy.scope && !new RegExp(policy.scope).test(target)) {
+      return { url: target, headers: {} };
+    }
+  } catch {
+    return { url: target, headers: {} };
+  }
+
+  const query = Object.entries(policy.query || {});
+  if (query.length > 0) {
+    try {
+      const parsed = new URL(target);
+      query.forEach(([name, value]) => parsed.searchParams.set(name, value));
+      target = parsed.href;
+    } catch {
+      // 不是完整的 URL 时不添加参数
+    }
+  }
+
+  return { url: target, headers: { ...policy.headers } };
+}
+
+// ==================== 分片预加载 ====================
+
+// 带宽低于 500kbps 时只预加载 1 个分片，避免和播放器抢带宽
+const LOW_BANDWIDTH = 500 * 1000;
+// 剩余存储空间低于 100MB 时停止预加载
+const MIN_FREE_STORAGE = 100 * 1024 * 1024;
+// 最多记住的 media playlist 数
+const MAX_PLAYLISTS = 20;
+
+// 已解析的 media playlist（url -> { segments, ended }）
+const mediaPlaylists = new Map();
+// 每个页面的播放状态（clientId -> state），由页面的 PREFETCH_HINT 消息更新
+const prefetchClients = new Map();
+// 正在预加载的分片（url -> Promise）
+const prefetchRequests = new Map();
+
+// 解析 media playlist 的分片时间轴
+function parseSegmentTimeline(text, baseUrl) {
+  const segments = [];
+  let time = 0;
+  let duration = 0;
+  let byteRange = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice(8)) || 0;
+    } else if (line.startsWith('#EXT-X-BYTERANGE')) {
+      byteRange = true;
+    } else if (!line.startsWith('#')) {
+      segments.push({ url: new URL(line, baseUrl).href, start: time, end: time + duration, byteRange });
+      time += duration;
+      duration = 0;
+      byteRange = false;
+    }
+  }
+
+  return { segments, ended: text.includes('#EXT-X-ENDLIST') };
+}
+
+// 记录页面加载的 media playlist，供预加载使用（master playlist 忽略）
+async function rememberPlaylist(url, response) {
+  try {
+    const text = await response.text();
+    if (text.includes('#EXT-X-STREAM-INF')) return;
+
+    mediaPlaylists.delete(url);
+    mediaPlaylists.set(url, parseSegmentTimeline(text, response.url || url));
+    if (mediaPlaylists.size > MAX_PLAYLISTS) {
+      mediaPlaylists.delete(mediaPlaylists.keys().next().value);
+    }
+
+    // 页面可能先发了提示，playlist 之后才加载完
+    prefetchClients.forEach((state, clientId) => {
+      if (state.playlists.includes(url)) {
+        runPrefetch(state, clientId).catch(console.error);
+      }
+    });
+  } catch (error) {
+    console.warn('[SW] Failed to parse playlist:', url, error);
+  }
+}
+
+function getPrefetchCount(state) {
+  if (state.bandwidth > 0 && state.bandwidth < LOW_BANDWIDTH) {
+    return Math.min(cachePolicy.prefetchSegments, 1);
+  }
+  return cachePolicy.prefetchSegments;
+}
 
+// 剩余存储空间不足或缓存接近上限时不再预加载，避免预加载的分片挤掉正在播放的缓存
+async function hasPrefetchSpace() {
+  try {
+    const { quota = 0, usage = 0 } = await self.navigator.storage.estimate();
+    if (quota > 0 && quota - usage < MIN_FREE_STORAGE) return false;
+  } catch {
+    // 无法获取配额时只按缓存上限判断
+  }
+
+  const entries = await getIndexEntries();
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  return totalSize < cachePolicy.maxCacheSize * 0.8;
+}
+
+// 查找下一个需要预加载的分片：从已缓冲的位置开始往后 N 个
+async function findNextPrefetch(state, cache) {
+  const count = getPrefetchCount(state);
+  if (count === 0) return null;
+
+  const from = Math.max(state.position, state.bufferedEnd);
+  for (const playlistUrl of state.playlists) {
+    const playlist = mediaPlaylists.get(playlistUrl);
+    // 直播的 playlist 会不断变化，不预加载
+    if (!playlist || !playlist.ended) continue;
+
+    const index = playlist.segments.findIndex(segment => segment.end > from);
+    if (index === -1) continue;
+
+    // 按页面的请求策略计算播放器实际会请求的地址，缓存到同一个地址下
+    for (const segment of playlist.segments.slice(index, index + count)) {
+      if (segment.byteRange) continue;
+      const request = applyRequestPolicy(state.policy, segment.url, 'segment');
+      if (state.failed.has(request.url) || prefetchRequests.has(request.url)) continue;
+      if (await cache.match(request.url)) continue;
+      return request;
+    }
+  }
+  return null;
+}
+
+async function prefetchSegment(cache, request, state, clientId) {
+  const { url } = request;
+  const { signal } = state.controller;
+  const promise = (async () => {
+    const response = await fetch(url, { signal, headers: request.headers });
+    if (response.status !== 200) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    await cacheWithTimestamp(cache, new Request(url), response, clientVideos.get(clientId));
+  })();
+
+  prefetchRequests.set(url, promise);
+  try {
+    await promise;
+    // console.log('[SW] Prefetched:', url);
+  } catch (error) {
+    if (!signal.aborted) {
+      console.warn('[SW] Prefetch failed:', url, error);
+      state.failed.add(url);
+    }
+  } finally {
+    prefetchRequests.delete(url);
+  }
+}
+
+// 逐个预加载分片，播放暂停、空间不足或没有需要预加载的分片时停止
+async function runPrefetch(state, clientId) {
+  if (state.running) return;
+  state.running = true;
+
+  try {
+    await policyReady;
+    const cache = await caches.open(CACHE_NAME);
+
+    while (state.playing && !state.controller.signal.aborted) {
+      const request = await findNextPrefetch(state, cache);
+      if (!request || !(await hasPrefetchSpace())) break;
+      await prefetchSegment(cache, request, state, clientId);
+    }
+
+    manageCacheSize().catch(console.error);
+  } finally {
+    state.running = false;
+  }
+}
+
+// 页面发送的播放状态：{ position, bufferedEnd, bandwidth, playing, playlists }
+function handlePrefetchHint(clientId, hint) {
+  let state = prefetchClients.get(clientId);
+  if (!state) {
+    state = { controller: new AbortController(), failed: new Set(), running: false, playlists: [] };
+    prefetchClients.set(clientId, state);
+  }
+
+  // 页面发送的是 playlist 的原始地址，Service Worker 记录的是按请求策略改写后的地址
+  state.policy = clientRequestPolicies.get(clientId);
+  const playlists = (Array.isArray(hint.playlists) ? hint.playlists : [])
+    .map(url => applyRequestPolicy(state.policy, url, 'playlist').url);
+
+  // 切换视频时清空失败记录
+  if (playlists.join() !== state.playlists.join()) {
+    state.failed.clear();
+  }
+
+  Object.assign(state, {
+    position: Number(hint.position) || 0,
+    bufferedEnd: Number(hint.bufferedEnd) || 0,
+    bandwidth: Number(hint.bandwidth) || 0,
+    playing: !!hint.playing,
+    playlists
+  });
+
+  // 暂停时取消正在进行的预加载
+  if (!state.playing) {
+    state.controller.abort();
+    state.controller = new AbortController();
+    if (hint.closed) {
+      prefetchClients.delete(clientId);
+    }
+    return Promise.resolve();
+  }
+
+  return runPrefetch(state, clientId);
+}
+
+// 预加载下一集的开头：playlist 和前几个分片，缓存归属于下一集，切换视频清理上一集时不会被删除
+// maxHeight 为当前播放的清晰度，下一集选择不超过该分辨率的最高码率
+const nextVideoPrefetches = new Set();
+
+async function prefetchNextVideo(clientId, url, maxHeight) {
+  if (nextVideoPrefetches.has(url)) return;
+  nextVideoPrefetches.add(url);
+
+  try {
+    await policyReady;
+    if (cachePolicy.prefetchSegments === 0 || !(await hasPrefetchSpace())) return;
+
+    const policy = clientRequestPolicies.get(clientId);
+    const cache = await caches.open(CACHE_NAME);
+
+    // 下载 playlist 并按播放器会请求的地址缓存
+    const fetchPlaylist = async (playlistUrl) => {
+      const request = applyRequestPolicy(policy, playlistUrl, 'playlist');
+      const cached = await cache.match(request.url);
+      const response = cached && !isCacheExpired(cached)
+        ? cached
+        : await fetch(request.url, { headers: request.headers });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const text = await response.clone().text();
+      if (response !== cached) {
+        await cacheWithTimestamp(cache, new Request(request.url), response, url);
+      }
+      return { text, baseUrl: response.url || playlistUrl };
+    };
+
+    let playlist = await fetchPlaylist(url);
+    const master = parsePlaylist(playlist.text, playlist.baseUrl);
+    if (master.isMaster) {
+      playlist = await fetchPlaylist(pickVariant(master.variants, maxHeight).url);
+    }
+
+    const { segments, ended } = parseSegmentTimeline(playlist.text, playlist.baseUrl);
+    if (!ended) return;
+
+    for (const segment of segments.slice(0, cachePolicy.prefetchSegments)) {
+      if (segment.byteRange) continue;
+      const request = applyRequestPolicy(policy, segment.url, 'segment');
+      if (await cache.match(request.url)) continue;
+      const response = await fetch(request.url, { headers: request.headers });
+      if (response.status !== 200) throw new Error(`HTTP ${response.status}`);
+      await cacheWithTimestamp(cache, new Request(request.url), response, url);
+    }
+
+    manageCacheSize().catch(console.error);
+  } catch (error) {
+    console.warn('[SW] Failed to prefetch next video:', url, error);
+  } finally {
+    nextVideoPrefetches.delete(url);
+  }
+}
+
+// ==================== 离线下载 ====================
+
+// 离线下载的元数据保存在同一个缓存中，使用虚拟的 URL 作为 key
+const OFFLINE_META_PREFIX = new URL('__offline__/', self.registration.scope).href;
+// 同时下载的资源数
+const DOWNLOAD_CONCURRENCY = 3;
+// 单个资源下载失败后的重试次数
+const DOWNLOAD_MAX_RETRY = 3;
+// 保存下载进度的最小间隔
+const META_SAVE_INTERVAL = 1000;
+
+// 正在进行的下载任务（url -> job）
+const downloadJobs = new Map();
+
+function getMetaKey(url) {
+  return OFFLINE_META_PREFIX + encodeURIComponent(url);
+}
+
+async function readDownloadMeta(cache, url) {
+  const response = await cache.match(getMetaKey(url));
+  return response ? response.json() : null;
+}
+
+async function writeDownloadMeta(cache, meta) {
+  await cache.put(getMetaKey(meta.url), new Response(JSON.stringify(meta), {
+    headers: { 'Content-Type': 'application/json' }
+  }));
+}
+
+async function listDownloadMetas(cache) {
+  const keys = await cache.keys();
+  const metas = [];
   for (const request of keys) {
-    const requestUrl = request.url;
-
-    // 如果请求URL包含视频的基础路径，则删除
-    if (requestUrl.includes(basePath) || getVideoBasePath(requestUrl) === basePath) {
-      const response = await cache.match(request);
-      if (response) {
-        try {
-          // 尝试获取 blob 大小（iOS Safari 可能失败）
-          const blob = await response.blob();
-          deletedSize += blob.size;
-        } catch (error) {
-          // iOS 降级方案：使用 Content-Length header 估算大小
-          const contentLength = response.headers.get('content-length');
-          deletedSize += contentLength ? parseInt(contentLength) : 0;
+    if (!request.url.startsWith(OFFLINE_META_PREFIX)) continue;
+    const response = await cache.match(request);
+    if (response) {
+      metas.push(await response.json());
+    }
+  }
+  return metas;
+}
+
+// 发给页面的下载信息（不包含资源列表）
+function toDownloadInfo(meta) {
+  const { resources, requestPolicy, ...info } = meta;
+  // Service Worker 重启后任务会丢失，未完成的下载视为暂停
+  if (info.status === 'downloading' && !downloadJobs.has(meta.url)) {
+    info.status = 'paused';
+  }
+  return info;
+}
+
+function notifyDownload(job) {
+  const message = { type: 'DOWNLOAD_PROGRESS', download: toDownloadInfo(job.meta) };
+  job.ports.forEach((port) => {
+    try {
+      port.postMessage(message);
+    } catch {
+      job.ports.delete(port);
+    }
+  });
+}
+
+// 解析 playlist 的属性列表，如 BANDWIDTH=1280000,RESOLUTION=1280x720,URI="..."
+function parseAttributes(line) {
+  const attrs = {};
+  const regex = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match;
+  while ((match = regex.exec(line.slice(line.indexOf(':') + 1)))) {
+    attrs[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attrs;
+}
+
+// 解析 playlist 中引用的子 playlist、分片、密钥和初始化分片
+function parsePlaylist(text, baseUrl) {
+  const variants = [];
+  const renditions = [];
+  const resources = [];
+  const keys = [];
+  let streamInf = null;
+  let streamInfLine = '';
+
+  const addUri = (uri, isKey) => {
+    // 只下载 http(s) 资源，跳过 data: 和 DRM（skd:// 等）
+    const url = new URL(uri, baseUrl);
+    if (url.protocol === 'http:' || url.protocol === 'https:') {
+      resources.push(url.href);
+      if (isKey) keys.push(url.href);
+    }
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      streamInf = parseAttributes(line);
+      streamInfLine = line;
+    } else if (line.startsWith('#EXT-X-MEDIA:')) {
+      const attrs = parseAttributes(line);
+      if (attrs.URI) {
+        renditions.push({ attrs, url: new URL(attrs.URI, baseUrl).href });
+      }
+    } else if (line.startsWith('#EXT-X-KEY:') || line.startsWith('#EXT-X-MAP:')) {
+      const attrs = parseAttributes(line);
+      if (attrs.URI) addUri(attrs.URI, line.startsWith('#EXT-X-KEY:'));
+    } else if (!line.startsWith('#')) {
+      if (streamInf) {
+        variants.push({ attrs: streamInf, line: streamInfLine, uri: line, url: new URL(line, baseUrl).href });
+        streamInf = null;
+      } else {
+        addUri(line);
+      }
+    }
+  }
+
+  return {
+    isMaster: variants.length > 0,
+    variants,
+    renditions,
+    resources,
+    keys,
+    ended: text.includes('#EXT-X-ENDLIST')
+  };
+}
+
+// 选择要下载的清晰度：不超过 maxHeight 的最高码率，未指定时选最高码率
+function pickVariant(variants, maxHeight) {
+  const getHeight = variant => parseInt((variant.attrs.RESOLUTION || '').split('x')[1]) || 0;
+  const getBandwidth = variant => parseInt(variant.attrs.BANDWIDTH) || 0;
+  const sorted = [...variants].sort((a, b) => getBandwidth(b) - getBandwidth(a));
+  if (!maxHeight) return sorted[0];
+  return sorted.find(variant => getHeight(variant) <= maxHeight) || sorted[sorted.length - 1];
+}
+
+// 只保留选中的清晰度及其音轨、字幕组，离线时 hls.js 不会去请求没有下载的清晰度
+function rewriteMasterPlaylist(text, variant) {
+  const groups = [variant.attrs.AUDIO, variant.attrs.SUBTITLES].filter(Boolean);
+  const output = [];
+  let skipNextUri = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      skipNextUri = true;
+      continue;
+    }
+    if (skipNextUri && line && !line.startsWith('#')) {
+      skipNextUri = false;
+      continue;
+    }
+    if (line.startsWith('#EXT-X-I-FRAME-STREAM-INF:')) continue;
+    if (line.startsWith('#EXT-X-MEDIA:')) {
+      const attrs = parseAttributes(line);
+      if (attrs.URI && !groups.includes(attrs['GROUP-ID'])) continue;
+    }
+    output.push(rawLine);
+  }
+
+  output.push(variant.line, variant.uri);
+  return output.join('\n');
+}
+
+function sleep(ms, signal) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+// request 为按请求策略计算出的 { url, headers }
+async function fetchWithRetry(request, signal) {
+  const { url, headers } = request;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetch(url, { signal, headers, cache: 'no-store' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${url}`);
+      }
+      return response;
+    } catch (error) {
+      if (signal.aborted || attempt >= DOWNLOAD_MAX_RETRY) throw error;
+      await sleep(1000 * (attempt + 1), signal);
+    }
+  }
+}
+
+// 保存到离线缓存，记录实际大小方便统计
+async function putOffline(cache, url, body, headers) {
+  const blob = body instanceof Blob ? body : new Blob([body]);
+  const responseHeaders = new Headers();
+  const contentType = headers && headers.get('content-type');
+  if (contentType) responseHeaders.set('Content-Type', contentType);
+  responseHeaders.set('Content-Length', String(blob.size));
+  await cache.put(url, new Response(blob, { status: 200, headers: responseHeaders }));
+  return blob.size;
+}
+
+function getCachedSize(response) {
+  return parseInt(response.headers.get('content-length')) || 0;
+}
+
+// 下载 playlist 并收集所有需要下载的资源
+// 资源按请求策略下载，并保存在播放器实际会请求的地址下（离线播放时按该地址匹配）
+async function fetchPlaylists(job, cache) {
+  const { url, maxHeight, requestPolicy } = job.meta;
+  const { signal } = job.controller;
+  const playlistUrls = [];
+
+  const masterRequest = applyRequestPolicy(requestPolicy, url, 'playlist');
+  const masterResponse = await fetchWithRetry(masterRequest, signal);
+  const masterText = await masterResponse.text();
+  const master = parsePlaylist(masterText, masterResponse.url || url);
+
+  let mediaPlaylists;
+  if (master.isMaster) {
+    const variant = pickVariant(master.variants, maxHeight);
+    const groups = [variant.attrs.AUDIO, variant.attrs.SUBTITLES].filter(Boolean);
+    mediaPlaylists = [
+      variant.url,
+      ...master.renditions
+        .filter(rendition => groups.includes(rendition.attrs['GROUP-ID']))
+        .map(rendition => rendition.url)
+    ];
+    job.meta.size += await putOffline(cache, masterRequest.url, rewriteMasterPlaylist(masterText, variant), masterResponse.headers);
+  } else {
+    mediaPlaylists = [];
+    if (!master.ended) {
+      throw new Error('Live streams cannot be downloaded');
+    }
+    job.meta.size += await putOffline(cache, masterRequest.url, masterText, masterResponse.headers);
+  }
+  playlistUrls.push(masterRequest.url);
+
+  const resources = [...master.resources];
+  const keys = new Set(master.keys);
+  for (const playlistUrl of new Set(mediaPlaylists)) {
+    const request = applyRequestPolicy(requestPolicy, playlistUrl, 'playlist');
+    const response = await fetchWithRetry(request, signal);
+    const text = await response.text();
+    const playlist = parsePlaylist(text, response.url || playlistUrl);
+    if (!playlist.ended) {
+      throw new Error('Live streams cannot be downloaded');
+    }
+    job.meta.size += await putOffline(cache, request.url, text, response.headers);
+    playlistUrls.push(request.url);
+    resources.push(...playlist.resources);
+    playlist.keys.forEach(key => keys.add(key));
+  }
+
+  // EXT-X-BYTERANGE 的分片共用同一个 URL，只下载一次
+  return {
+    playlistUrls,
+    resources: [...new Set(resources)]
+      .map(resource => applyRequestPolicy(requestPolicy, resource, keys.has(resource) ? 'key' : 'segment'))
+  };
+}
+
+async function runDownload(job) {
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  const { meta } = job;
+  const { signal } = job.controller;
+  let lastSave = 0;
+
+  const saveProgress = async (force) => {
+    if (!force && Date.now() - lastSave < META_SAVE_INTERVAL) return;
+    lastSave = Date.now();
+    meta.updatedAt = lastSave;
+    await writeDownloadMeta(cache, meta);
+    notifyDownload(job);
+  };
+
+  try {
+    meta.status = 'downloading';
+    meta.error = undefined;
+    meta.size = 0;
+    meta.completed = 0;
+
+    const { playlistUrls, resources } = await fetchPlaylists(job, cache);
+    meta.resources = [...playlistUrls, ...resources.map(resource => resource.url)];
+    meta.total = resources.length;
+    await saveProgress(true);
+
+    // 多个下载协程共享同一个队列，已下载的资源（继续下载时）直接跳过
+    let next = 0;
+    const worker = async () => {
+      while (next < resources.length) {
+        signal.throwIfAborted();
+        const request = resources[next++];
+        const cached = await cache.match(request.url);
+        if (cached) {
+          meta.size += getCachedSize(cached);
+        } else {
+          const response = await fetchWithRetry(request, signal);
+          meta.size += await putOffline(cache, request.url, await response.blob(), response.headers);
         }
+        meta.completed++;
+        await saveProgress(false);
       }
+    };
+    await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
 
-      await cache.delete(request);
-      deletedCount++;
-      // console.log('[SW] Deleted cache for:', requestUrl);
+    meta.status = 'completed';
+    await saveProgress(true);
+  } catch (error) {
+    // 暂停和取消时状态已由对应的消息处理
+    if (signal.aborted) return;
+    console.error('[SW] Offline download failed:', meta.url, error);
+    meta.status = 'error';
+    meta.error = error.message || String(error);
+    await saveProgress(true);
+  } finally {
+    if (downloadJobs.get(meta.url) === job) {
+      downloadJobs.delete(meta.url);
     }
   }
+}
+
+// 开始或继续下载，使用发起下载的页面的请求策略（继续下载时没有则使用上次的）
+async function startDownload(data, port, clientId) {
+  const existingJob = downloadJobs.get(data.url);
+  if (existingJob) {
+    if (port) existingJob.ports.add(port);
+    notifyDownload(existingJob);
+    return existingJob.promise;
+  }
+
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  const saved = await readDownloadMeta(cache, data.url);
+  const now = Date.now();
+  const meta = {
+    url: data.url,
+    title: data.title || (saved && saved.title),
+    poster: data.poster || (saved && saved.poster),
+    maxHeight: data.maxHeight || (saved && saved.maxHeight),
+    requestPolicy: clientRequestPolicies.get(clientId) || (saved && saved.requestPolicy),
+    status: 'downloading',
+    completed: 0,
+    total: saved ? saved.total : 0,
+    size: 0,
+    createdAt: saved ? saved.createdAt : now,
+    updatedAt: now,
+    resources: saved ? saved.resources : []
+  };
+
+  const job = {
+    meta,
+    controller: new AbortController(),
+    ports: new Set(port ? [port] : [])
+  };
+  downloadJobs.set(data.url, job);
+  notifyDownload(job);
 
-  return { deletedCount, deletedSize };
+  job.promise = runDownload(job);
+  return job.promise;
+}
+
+async function pauseDownload(url) {
+  const job = downloadJobs.get(url);
+  if (!job) return;
+
+  downloadJobs.delete(url);
+  job.controller.abort();
+  job.meta.status = 'paused';
+  job.meta.updatedAt = Date.now();
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  await writeDownloadMeta(cache, job.meta);
+  notifyDownload(job);
+}
+
+// 取消或删除下载，其他下载还在使用的资源（如共用的密钥）会保留
+async function deleteDownload(url) {
+  const job = downloadJobs.get(url);
+  if (job) {
+    downloadJobs.delete(url);
+    job.controller.abort();
+  }
+
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  const metas = await listDownloadMetas(cache);
+  const meta = metas.find(item => item.url === url) || (job && job.meta);
+  const inUse = new Set(
+    metas
+      .filter(item => item.url !== url)
+      .flatMap(item => item.resources || [])
+  );
+
+  const resources = new Set([url, ...((meta && meta.resources) || []), ...((job && job.meta.resources) || [])]);
+  for (const resource of resources) {
+    if (!inUse.has(resource)) {
+      await cache.delete(resource);
+    }
+  }
+  await cache.delete(getMetaKey(url));
+
+  if (job) {
+    job.meta.status = 'deleted';
+    notifyDownload(job);
+  }
+}
+
+async function listDownloads() {
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  const metas = await listDownloadMetas(cache);
+  return metas
+    .map(meta => toDownloadInfo(downloadJobs.get(meta.url)?.meta || meta))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// 订阅下载进度，立即回复当前状态
+async function subscribeDownload(url, port) {
+  const job = downloadJobs.get(url);
+  if (job) {
+    job.ports.add(port);
+    notifyDownload(job);
+    return;
+  }
+
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  const meta = await readDownloadMeta(cache, url);
+  port.postMessage({ type: 'DOWNLOAD_PROGRESS', download: meta ? toDownloadInfo(meta) : null });
+}
+
+// 处理离线下载相关的消息，返回 false 表示不是下载消息
+function handleDownloadMessage(event) {
+  const { type, url } = event.data;
+  const port = event.ports && event.ports[0];
+  const reply = (message) => port && port.postMessage(message);
+  const onError = (error) => {
+    console.error('[SW] Offline download message failed:', type, error);
+    reply({ success: false, error: error.message });
+  };
+
+  switch (type) {
+    case 'DOWNLOAD_START':
+      // 下载时间较长，保持 Service Worker 运行直到下载结束或暂停
+      event.waitUntil(startDownload(event.data, port, event.source && event.source.id).catch(onError));
+      return true;
+    case 'DOWNLOAD_PAUSE':
+      event.waitUntil(pauseDownload(url).then(() => reply({ success: true }), onError));
+      return true;
+    case 'DOWNLOAD_DELETE':
+      event.waitUntil(deleteDownload(url).then(() => reply({ success: true }), onError));
+      return true;
+    case 'DOWNLOAD_SUBSCRIBE':
+      if (port) {
+        event.waitUntil(subscribeDownload(url, port).catch(onError));
+      }
+      return true;
+    case 'DOWNLOAD_LIST':
+      event.waitUntil(listDownloads().then(downloads => reply({ success: true, downloads }), onError));
+      return true;
+    default:
+      return false;
+  }
 }
 
 // 监听消息（用于清除缓存等操作）
 self.addEventListener('message', (event) => {
+  if (event.data && handleDownloadMessage(event)) return;
+
   if (event.data && event.data.type === 'CLEAR_CACHE') {
     event.waitUntil(
-      caches.delete(CACHE_NAME).then(() => {
+      Promise.all([caches.delete(CACHE_NAME), clearIndexEntries()]).then(() => {
         // console.log('[SW] Cache cleared');
         if (event.ports && event.ports[0]) {
           event.ports[0].postMessage({ success: true });
@@ -268,32 +1376,85 @@ self.addEventListener('message', (event) => {
 
   if (event.data && event.data.type === 'GET_CACHE_SIZE') {
     event.waitUntil(
-      caches.open(CACHE_NAME).then(async (cache) => {
-        const keys = await cache.keys();
-        let totalSize = 0;
-
-        for (const request of keys) {
-          const response = await cache.match(request);
-          if (response) {
-            try {
-              // 尝试获取 blob 大小（iOS Safari 可能失败）
-              const blob = await response.blob();
-              totalSize += blob.size;
-            } catch (error) {
-              // iOS 降级方案：使用 Content-Length header 估算大小
-              const contentLength = response.headers.get('content-length');
-              totalSize += contentLength ? parseInt(contentLength) : 0;
-            }
-          }
-        }
+      getIndexEntries().then((entries) => {
+        const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
 
         if (event.ports && event.ports[0]) {
           event.ports[0].postMessage({
             size: totalSize,
-            count: keys.length
+            count: entries.length
           });
         }
       })
     );
   }
+
+  // 记录页面正在播放的视频，之后该页面请求的缓存都归属于这个视频
+  if (event.data && event.data.type === 'SET_CURRENT_VIDEO') {
+    if (event.source && event.source.id) {
+      clientVideos.set(event.source.id, event.data.url);
+      clientCacheStats.delete(event.source.id);
+    }
+  }
+
+  // 页面的请求策略，预加载和离线下载的请求也会带上相同的请求头和参数
+  if (event.data && event.data.type === 'SET_REQUEST_POLICY') {
+    if (event.source && event.source.id) {
+      if (event.data.policy) {
+        clientRequestPolicies.set(event.source.id, event.data.policy);
+      } else {
+        clientRequestPolicies.delete(event.source.id);
+      }
+    }
+  }
+
+  // 页面的播放位置和带宽提示，用于预加载后续分片
+  if (event.data && event.data.type === 'PREFETCH_HINT') {
+    if (event.source && event.source.id) {
+      event.waitUntil(handlePrefetchHint(event.source.id, event.data).catch(console.error));
+    }
+  }
+
+  // 预加载下一集：{ url, maxHeight }
+  if (event.data && event.data.type === 'PREFETCH_VIDEO') {
+    if (event.source && event.source.id && event.data.url) {
+      event.waitUntil(prefetchNextVideo(event.source.id, event.data.url, event.data.maxHeight));
+    }
+  }
+
+  // 设置缓存策略：{ maxCacheSize, cacheExpiry, cacheableExtensions, cacheableContentTypes, prefetchSegments }，
+  // 字段为 null 时恢复默认值
+  if (event.data && event.data.type === 'SET_CACHE_POLICY') {
+    event.waitUntil(
+      setCachePolicy(event.data.policy).then((policy) => {
+        if (event.ports && event.ports[0]) {
+          event.ports[0].postMessage({ success: true, policy });
+        }
+      }).catch((error) => {
+        console.error('[SW] Failed to set cache policy:', error);
+        if (event.ports && event.ports[0]) {
+          event.ports[0].postMessage({ success: false, error: error.message });
+        }
+      })
+    );
+  }
+
+  // 当前页面的请求来源统计
+  if (event.data && event.data.type === 'GET_CACHE_STATS') {
+    const stats = (event.source && clientCacheStats.get(event.source.id))
+      || { cache: 0, offline: 0, network: 0, last: null };
+    if (event.ports && event.ports[0]) {
+      event.ports[0].postMessage({ success: true, stats });
+    }
+  }
+
+  if (event.data && event.data.type === 'GET_CACHE_POLICY') {
+    event.waitUntil(
+      policyReady.then((policy) => {
+        if (event.ports && event.ports[0]) {
+          event.ports[0].postMessage({ success: true, policy });
+        }
+      })
+    );
+  }
 });
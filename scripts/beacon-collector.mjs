@@ -0,0 +1,75 @@
+// 本地的播放质量上报接收端，用于开发和调试 analytics.beacon
+// 用法：npm run collector [-- --port 8787 --out beacons.jsonl]
+// 然后打开 http://localhost:5173/?url=...&beacon=http://localhost:8787/beacon
+// 每个事件在控制台输出一行摘要，指定 --out 时按行追加完整的 JSON
+
+import { appendFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+
+function getArg(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const port = Number(getArg('port', 8787));
+const out = getArg('out');
+// sendBeacon 的数据量上限约 64KB，超出的请求直接拒绝
+const MAX_BODY_SIZE = 256 * 1024;
+
+function summarize(event) {
+  const { type, playbackId, position, timestamp, ...data } = event;
+  const time = new Date(timestamp).toISOString().slice(11, 23);
+  return `${time} ${String(playbackId).slice(0, 8)} ${type.padEnd(8)} @${Number(position).toFixed(1)}s ${JSON.stringify(data)}`;
+}
+
+const server = createServer((req, res) => {
+  // 允许任意页面上报（fetch 降级时可能带有 CORS 预检）
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', (chunk) => {
+    body += chunk;
+    if (body.length > MAX_BODY_SIZE) {
+      res.writeHead(413).end();
+      req.destroy();
+    }
+  });
+  req.on('end', () => {
+    let batch;
+    try {
+      batch = JSON.parse(body);
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+    if (!batch || !Array.isArray(batch.events)) {
+      res.writeHead(400).end();
+      return;
+    }
+
+    console.log(`[collector] batch v${batch.version} session ${batch.sessionId}: ${batch.events.length} events`);
+    for (const event of batch.events) {
+      console.log(`  ${summarize(event)}`);
+      if (out) {
+        appendFileSync(out, `${JSON.stringify({ sessionId: batch.sessionId, ...event })}\n`);
+      }
+    }
+    res.writeHead(204).end();
+  });
+});
+
+server.listen(port, () => {
+  console.log(`[collector] Listening on http://localhost:${port}/beacon${out ? `, writing to ${out}` : ''}`);
+});
@@ -0,0 +1,137 @@
+// 一起看的 WebSocket 中继：把每条消息转发给同一房间的其他连接，不保存任何状态
+// 用法：npm run sync-relay [-- --port 8788]
+// 然后打开 http://localhost:5173/?url=...&room=movie-night&syncServer=ws://localhost:8788
+// 只实现了播放器需要的部分协议（文本帧、ping/pong、close），不依赖第三方包
+
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+
+function getArg(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const port = Number(getArg('port', 8788));
+// 同步消息都很小，超出的帧直接断开
+const MAX_FRAME_SIZE = 64 * 1024;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// 房间名 -> 连接
+const rooms = new Map();
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// 从缓冲区解析一个完整的帧，数据不足时返回 null
+function decodeFrame(buffer) {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (length > MAX_FRAME_SIZE) return { error: true };
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+  }
+  return { opcode, payload, size: offset + length };
+}
+
+function leave(socket, room) {
+  const members = rooms.get(room);
+  if (!members) return;
+  members.delete(socket);
+  if (members.size === 0) rooms.delete(room);
+  console.log(`[sync-relay] ${room}: ${members.size} connected`);
+}
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' }).end('WebSocket only\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  const room = new URL(req.url ?? '/', 'http://localhost').searchParams.get('room');
+  if (!key || !room) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const members = rooms.get(room) ?? new Set();
+  members.add(socket);
+  rooms.set(room, members);
+  console.log(`[sync-relay] ${room}: ${members.size} connected`);
+
+  let buffer = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    let frame;
+    while ((frame = decodeFrame(buffer))) {
+      if (frame.error) {
+        socket.destroy();
+        return;
+      }
+      buffer = buffer.subarray(frame.size);
+
+      if (frame.opcode === 0x1) {
+        // 文本消息原样转发给同一房间的其他连接
+        const data = encodeFrame(0x1, frame.payload);
+        for (const peer of rooms.get(room) ?? []) {
+          if (peer !== socket && !peer.destroyed) peer.write(data);
+        }
+      } else if (frame.opcode === 0x8) {
+        socket.end(encodeFrame(0x8, frame.payload.subarray(0, 2)));
+        return;
+      } else if (frame.opcode === 0x9) {
+        socket.write(encodeFrame(0xa, frame.payload));
+      }
+    }
+  });
+
+  socket.on('close', () => leave(socket, room));
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(port, () => {
+  console.log(`[sync-relay] Listening on ws://localhost:${port}`);
+});
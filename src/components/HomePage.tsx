@@ -0,0 +1,283 @@
+import { useState, type FormEvent } from 'react';
+import { useOfflineDownloads } from '../hooks/useOfflineDownloads';
+import { useWatchHistory } from '../hooks/useWatchHistory';
+import { formatSize, type DownloadInfo } from '../utils/offlineDownload';
+import { buildPlayerSearch } from '../utils/playerParams';
+import type { WatchRecord } from '../utils/watchHistory';
+import './HomePage.css';
+
+// 可手动指定的视频类型（留空则自动检测）
+const VIDEO_TYPES = ['hls', 'dash', 'flv', 'mp4', 'webm', 'ogg', 'mov', 'mkv', 'ts'];
+
+function formatTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mm = h > 0 ? String(m).padStart(2, '0') : String(m);
+  return `${h > 0 ? `${h}:` : ''}${mm}:${String(s).padStart(2, '0')}`;
+}
+
+function formatLastWatched(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days} d ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
+
+// 没有标题时用 URL 的文件名
+function getDisplayTitle(record: { url: string; title?: string }): string {
+  if (record.title) return record.title;
+  try {
+    const name = new URL(record.url).pathname.split('/').filter(Boolean).pop();
+    return name ? decodeURIComponent(name) : record.url;
+  } catch {
+    return record.url;
+  }
+}
+
+function getDownloadStatus(download: DownloadInfo): string {
+  const percent = download.total > 0 ? Math.floor((download.completed / download.total) * 100) : 0;
+  switch (download.status) {
+    case 'completed':
+      return 'Available offline';
+    case 'downloading':
+      return `Downloading ${percent}%`;
+    case 'paused':
+      return `Paused ${percent}%`;
+    case 'error':
+      return 'Download failed';
+    default:
+      return '';
+  }
+}
+
+function HistoryCard({ record, onRemove }: { record: WatchRecord; onRemove: (id: string) => void }) {
+  const title = getDisplayTitle(record);
+  const percent = record.completed
+    ? 100
+    : record.duration > 0 ? Math.min(100, (record.position / record.duration) * 100) : 0;
+  const progressText = record.completed
+    ? 'Watched'
+    : record.duration > 0
+      ? `${formatTime(record.position)} / ${formatTime(record.duration)}`
+      : formatTime(record.position);
+
+  return (
+    <li className="history-card">
+      <a href={buildPlayerSearch(record)} title={record.url}>
+        <div className="history-poster">
+          {record.poster
+            ? <img src={record.poster} alt="" loading="lazy" />
+            : <span className="history-poster-placeholder">▶</span>}
+          <div className="history-progress">
+            <div style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+        <div className="history-info">
+          <div className="history-title">{title}</div>
+          <div className="history-meta">
+            {progressText} · {formatLastWatched(record.lastWatched)}
+          </div>
+        </div>
+      </a>
+      <button
+        type="button"
+        className="history-remove"
+        title="Remove from history"
+        aria-label={`Remove ${title} from history`}
+        onClick={() => onRemove(record.id)}
+      >
+        ×
+      </button>
+    </li>
+  );
+}
+
+function DownloadCard({ download, onRemove }: { download: DownloadInfo; onRemove: (url: string) => void }) {
+  const title = getDisplayTitle(download);
+  const percent = download.total > 0 ? (download.completed / download.total) * 100 : 0;
+
+  return (
+    <li className="history-card">
+      <a href={buildPlayerSearch({ ...download, type: 'hls' })} title={download.url}>
+        <div className="history-poster">
+          {download.poster
+            ? <img src={download.poster} alt="" loading="lazy" />
+            : <span className="history-poster-placeholder">▶</span>}
+          {download.status !== 'completed' && (
+            <div className="history-progress">
+              <div style={{ width: `${percent}%` }} />
+            </div>
+          )}
+        </div>
+        <div className="history-info">
+          <div className="history-title">{title}</div>
+          <div className="history-meta">
+            {getDownloadStatus(download)} · {formatSize(download.size)}
+          </div>
+        </div>
+      </a>
+      <button
+        type="button"
+        className="history-remove"
+        title="Delete download"
+        aria-label={`Delete download of ${title}`}
+        onClick={() => onRemove(download.url)}
+      >
+        ×
+      </button>
+    </li>
+  );
+}
+
+// 首页：继续观看列表、离线下载、打开新视频和参数说明
+export default function HomePage() {
+  const { records, loading, remove, clear } = useWatchHistory();
+  const { downloads, remove: removeDownload } = useOfflineDownloads();
+  const [url, setUrl] = useState('');
+  const [title, setTitle] = useState('');
+  const [poster, setPoster] = useState('');
+  const [type, setType] = useState('');
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const value = url.trim();
+    if (!value) return;
+    window.location.search = buildPlayerSearch({
+      url: value,
+      title: title.trim(),
+      poster: poster.trim(),
+      type
+    });
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Clear all watch history?')) {
+      clear();
+    }
+  };
+
+  return (
+    <div className="app-container home-page">
+      <h1>re:Player</h1>
+
+      <form className="open-form" onSubmit={handleSubmit}>
+        <input
+          type="url"
+          className="open-url"
+          placeholder="Paste a video URL (m3u8, mpd, mp4, flv...)"
+          value={url}
+          onChange={e => setUrl(e.target.value)}
+          required
+          autoFocus
+        />
+        <div className="open-options">
+          <input type="text" placeholder="Title (optional)" value={title} onChange={e => setTitle(e.target.value)} />
+          <input type="url" placeholder="Poster URL (optional)" value={poster} onChange={e => setPoster(e.target.value)} />
+          <select value={type} onChange={e => setType(e.target.value)} aria-label="Video type">
+            <option value="">Auto detect</option>
+            {VIDEO_TYPES.map(item => <option key={item} value={item}>{item}</option>)}
+          </select>
+          <button type="submit">Play</button>
+        </div>
+      </form>
+
+      {!loading && records.length > 0 && (
+        <section className="history-section">
+          <div className="history-header">
+            <h2>Continue watching</h2>
+            <button type="button" className="history-clear" onClick={handleClear}>Clear all</button>
+          </div>
+          <ul className="history-grid">
+            {records.map(record => (
+              <HistoryCard key={record.id} record={record} onRemove={remove} />
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {downloads.length > 0 && (
+        <section className="history-section">
+          <div className="history-header">
+            <h2>Downloads</h2>
+          </div>
+          <ul className="history-grid">
+            {downloads.map(download => (
+              <DownloadCard
+                key={download.url}
+                download={download}
+                onRemove={(url) => {
+                  if (window.confirm('Delete this download?')) {
+                    removeDownload(url);
+                  }
+                }}
+              />
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <details className="usage">
+        <summary>Usage</summary>
+        <p>Usage: /?url=&lt;video-url&gt;</p>
+        <p>Supported Formats: HLS (m3u8), DASH (mpd), MP4, WebM, FLV, OGG, MOV, MKV, AVI, WMV, TS, and more</p>
+        <p>Optional parameters:</p>
+        <ul>
+          <li><code>url</code> - Video URL (required unless <code>playlist</code> is set)</li>
+          <li><code>type</code> - Video type: hls, dash, flv, mp4, webm... (auto-detected from the extension, or by probing the URL when it has none; overrides detection if set)</li>
+          <li><code>poster</code> - Poster image URL</li>
+          <li><code>title</code> - Video title</li>
+          <li><code>autoplay</code> - Auto play (default: true)</li>
+          <li><code>live</code> - Live stream, e.g. HTTP-FLV live (default: false; HLS live is detected automatically)</li>
+          <li><code>lowLatency</code> - Enable Low-Latency HLS when the stream supports it (default: false)</li>
+          <li><code>latency</code> - Target live latency in seconds, e.g. <code>4</code> (default: suggested by the playlist)</li>
+          <li><code>enableIframeFullscreen</code> - Enable iframe fullscreen communication (default: true)</li>
+          <li><code>backup</code> - Backup video URL, tried in order when the main URL fails (repeatable)</li>
+          <li><code>thumbnails</code> - WebVTT thumbnail track for progress bar previews (sprite sheets with <code>#xywh=</code>); HLS streams with an I-frame playlist get previews without it</li>
+          <li><code>chapters</code> - Chapters as a WebVTT chapters URL or inline JSON (e.g. <code>{'[[0,"Intro"],["1:30","Part 1"]]'}</code>); HLS <code>EXT-X-DATERANGE</code> chapters are read automatically</li>
+          <li><code>playlist</code> - Episode list as a JSON or extended M3U URL, or inline JSON; adds previous/next buttons (<code>Shift+P</code> / <code>Shift+N</code>), an episode picker and autoplay of the next episode, starting from <code>url</code> if it is in the list</li>
+          <li><code>introStart</code>, <code>introEnd</code>, <code>outroStart</code> - Intro and outro positions in seconds, shows Skip intro / Skip outro buttons</li>
+          <li><code>series</code> - Series key for intro/outro marks saved from the settings menu (default: video URL)</li>
+          <li><code>autoSkip</code> - Skip intro and outro automatically (default: last choice)</li>
+          <li><code>subtitle</code> - External subtitle as <code>url|label|lang</code> (VTT, SRT or ASS, repeatable)</li>
+          <li><code>quality</code> - Starting HLS quality, e.g. <code>720p</code>, <code>max</code>, <code>min</code> (default: last choice or auto)</li>
+          <li><code>audioLang</code> - Preferred HLS audio track language, e.g. <code>en</code> (default: last choice)</li>
+          <li><code>subLang</code> - Preferred HLS caption language, or <code>off</code> (default: last choice)</li>
+          <li><code>allowedOrigins</code> - Comma-separated parent origins allowed to control the player (default: same origin only, <code>*</code> allows any)</li>
+          <li><code>t</code> - Start time, e.g. <code>90</code>, <code>1m30s</code> or <code>1:30</code> (overrides the saved position)</li>
+          <li><code>theme</code> - Theme colour as hex, e.g. <code>ff6600</code></li>
+          <li><code>muted</code>, <code>loop</code>, <code>hotkey</code> - <code>true</code> or <code>false</code></li>
+          <li><code>volume</code> - Starting volume from 0 to 1 (default: last volume)</li>
+          <li><code>controls</code> - Toggle controls, e.g. <code>-pip,-screenshot</code> (fullscreen, fullscreenWeb, pip, screenshot, setting, playbackRate, aspectRatio, flip, rotate, autoMini)</li>
+          <li><code>hls.maxBufferLength</code>, <code>hls.maxMaxBufferLength</code>, <code>hls.maxBufferSize</code> (MB), <code>hls.maxBufferHole</code>, <code>hls.backBufferLength</code> - hls.js buffer tuning</li>
+          <li><code>gestures</code> - Touch gestures on phones and tablets: double-tap the sides to seek, swipe up/down for brightness (left) and volume (right), swipe sideways to scrub, long-press for 2× speed (default: <code>true</code>). Individual gestures, the seek step and the long-press speed are set with <code>gestures</code> in <code>config</code> or a preset</li>
+          <li><code>header</code> - Request header added to HLS playlist, segment and key requests as <code>Name: value</code> (repeatable)</li>
+          <li><code>token</code> - Query parameter added to HLS requests as <code>name=value</code> (repeatable); URL rewrite rules are set with <code>request</code> in <code>config</code> or a preset</li>
+          <li><code>cache.maxSize</code> (MB), <code>cache.expiry</code> (minutes), <code>cache.prefetchSegments</code>, <code>cache.extensions</code> - Service Worker cache policy, saved for the whole site (default: size from free storage, 120 minutes, 5 segments)</li>
+          <li><code>beacon</code> - Collector URL for playback quality analytics (startup time, rebuffering, bitrate switches, errors, watch time), sent in batches with <code>sendBeacon</code>; off unless set. Sampling and the send interval are set with <code>analytics</code> in <code>config</code> or a preset</li>
+          <li><code>room</code> - Watch-together room: players in the same room share play, pause, seek and speed. Without <code>syncServer</code> only tabs in the same browser are synced</li>
+          <li><code>syncServer</code> - WebSocket relay for syncing across devices, e.g. <code>ws://localhost:8788</code> (run <code>npm run sync-relay</code>)</li>
+          <li><code>syncRole</code> - <code>host</code>, <code>follower</code> or <code>auto</code> (default: the first viewer to join becomes the host)</li>
+          <li><code>preset</code> - Named preset from <code>presets/&lt;name&gt;.json</code> next to the player, e.g. <code>minimal</code> or <code>low-memory</code></li>
+          <li><code>config</code> - Base64-encoded JSON with the same options; individual parameters take precedence. Invalid values are ignored with a console warning</li>
+        </ul>
+        <h3>Examples:</h3>
+        <div className="usage-examples">
+          <p><strong>M3U8 Stream (auto-detected):</strong></p>
+          <code>?url=https://example.com/video.m3u8</code>
+          <p><strong>MP4 with poster (auto-detected):</strong></p>
+          <code>?url=https://example.com/video.mp4&amp;poster=https://example.com/poster.jpg&amp;title=My%20Video</code>
+          <p><strong>Manual type specification:</strong></p>
+          <code>?url=https://example.com/video&amp;type=mp4&amp;title=My%20Video</code>
+          <p><strong>With subtitles:</strong></p>
+          <code>?url=https://example.com/video.m3u8&amp;subtitle=https://example.com/en.srt|English|en&amp;subtitle=https://example.com/zh.ass|中文|zh</code>
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -1,91 +1,147 @@
-import { useEffect, useRef } from 'react';
-import Artplayer from 'artplayer';
+import { useEffect, useImperativeHandle, useMemo, useRef, useState, type Ref } from 'react';
+import Artplayer, { type Option } from 'artplayer';
 import Hls from 'hls.js';
+import { usePlayerBridge } from '../hooks/usePlayerBridge';
+import { useStableValue } from '../hooks/useStableValue';
+import { useVideoType } from '../hooks/useVideoType';
+import { attachAnalytics } from '../plugins/analytics';
+import { attachChapters, attachHlsChapters } from '../plugins/chapters';
+import { attachErrorOverlay } from '../plugins/errorOverlay';
+import { attachHlsPrefetch } from '../plugins/hlsPrefetch';
+import { attachHlsQuality } from '../plugins/hlsQuality';
+import { attachHlsTracks } from '../plugins/hlsTracks';
+import { attachGestures } from '../plugins/gestures';
+import { attachHlsLive, enableLiveMode } from '../plugins/liveMode';
+import offlineDownloadPlugin from '../plugins/offlineDownload';
+import { attachPlaybackStats } from '../plugins/playbackStats';
+import { attachPlaylist } from '../plugins/playlist';
+import skipMarkersPlugin from '../plugins/skipMarkers';
+import { attachThumbnailPreview } from '../plugins/thumbnailPreview';
+import subtitlesPlugin from '../plugins/subtitles';
+import { attachSyncPlayback } from '../plugins/syncPlayback';
+import { loadChapters } from '../utils/chapters';
+import { createDashPlayer, type DashSession } from '../utils/dash';
+import { createFlvPlayer, type FlvSession } from '../utils/flv';
+import { createIFrameThumbnailProvider, isIFrameThumbnailSupported } from '../utils/iframeThumbnails';
+import type { SubtitleTrack } from '../utils/subtitle';
+import { isOfflineDownloadSupported } from '../utils/offlineDownload';
+import { DEFAULT_PLAYER_CONFIG, toCachePolicyUpdate, type PlayerConfig } from '../utils/playerConfig';
+import type { PlaylistEntry } from '../utils/playlist';
+import { createPolicyLoader, isRequestPolicyEmpty } from '../utils/requestPolicy';
+import { executePlayerCommand, getPlayerState, type PlayerCommand, type PlayerCommandResult, type PlayerSource, type PlayerState } from '../utils/playerBridge';
+import { createRetrier } from '../utils/retry';
+import type { SkipMarkers } from '../utils/skipMarkers';
+import { createVttThumbnailProvider } from '../utils/thumbnails';
+import { applyCachePolicy, prefetchVideo, setCurrentVideo, setRequestPolicy } from '../utils/serviceWorker';
+import { scopedStorageKey } from '../utils/storage';
+import type { SyncRole } from '../utils/sync';
+import { detectVideoType } from '../utils/videoType';
+import { getWatchRecord, saveWatchProgress } from '../utils/watchHistory';
 import './M3U8Player.css';
 
-interface M3U8PlayerProps {
+// 向父页面推送 PLAYER_TIMEUPDATE 的最小间隔（毫秒）
+const TIMEUPDATE_INTERVAL = 1000;
+
+// 播放失败（重试和备用地址都用完）时的错误信息
+export interface PlayerError {
+  code?: number; // MediaError.code（原生播放时）
+  message: string;
+}
+
+// 播放器事件，参数为事件发生时的播放状态
+export interface PlayerEvents {
+  onReady?: (state: PlayerState) => void;
+  onPlay?: (state: PlayerState) => void;
+  onPause?: (state: PlayerState) => void;
+  onTimeUpdate?: (state: PlayerState) => void;
+  onEnded?: (state: PlayerState) => void;
+  onError?: (error: PlayerError) => void;
+}
+
+// 通过 ref 控制播放器，指令与父页面的 PLAYER_COMMAND 相同
+export interface PlayerHandle {
+  readonly art: Artplayer | null;
+  execute: <C extends PlayerCommand>(command: C) => Promise<PlayerCommandResult<C>>;
+}
+
+export interface M3U8PlayerProps extends PlayerEvents {
   url: string;
   poster?: string;
   title?: string;
   type?: string; // 视频类型: hls, dash, flv, mp4, webm, ogg, mov, etc
+  subtitles?: SubtitleTrack[]; // 外挂字幕（VTT/SRT/ASS）
+  backups?: string[]; // 备用地址，当前地址重试失败后依次切换
+  thumbnails?: string; // 进度条预览图的 VTT 缩略图轨道
+  chapters?: string; // 章节：WebVTT 地址或内联 JSON
+  series?: string; // 剧集 key，观众标记的片头/片尾按剧集保存（默认使用视频地址）
+  markers?: SkipMarkers; // 片头/片尾位置
+  startTime?: number; // 起播时间（秒），优先于观看记录
+  autoSkip?: boolean; // 自动跳过片头/片尾，未指定时使用观众上次的选择
+  quality?: string; // HLS 初始清晰度: 720p, 1080, max, min, auto
+  audioLang?: string; // HLS 初始音轨语言
+  subLang?: string; // HLS 内嵌字幕初始语言，off 表示关闭
+  isLive?: boolean; // 直播流（FLV 直播追帧、隐藏进度条），HLS 直播会自动检测
+  lowLatency?: boolean; // HLS 直播启用 LL-HLS
+  latency?: number; // HLS 直播目标延迟（秒）
+  room?: string; // 一起看的房间，同一房间的播放器同步播放、暂停、进度和倍速
+  syncServer?: string; // 一起看的 WebSocket 中继地址，不指定时只同步同一浏览器的标签页
+  syncRole?: SyncRole; // 一起看的角色，默认 auto
   autoplay?: boolean;
-  enableIframeFullscreen?: boolean; // 在iframe中启用全屏通信
+  config?: PlayerConfig; // 主题、控件、快捷键、缓冲等配置
+  episodes?: PlaylistEntry[]; // 播放列表（剧集）
+  episodeIndex?: number; // 当前播放的剧集，-1 表示不在播放列表中
+  onEpisodeChange?: (index: number) => void; // 切换剧集
+  enableIframeFullscreen?: boolean; // 在iframe中启用全屏通信（同时控制父页面指令通信）
+  allowedOrigins?: string[]; // 允许与播放器通信的父页面来源
+  onLoad?: (source: PlayerSource) => void; // 父页面通过 load 指令切换视频
+  storageKey?: string; // 同一页面有多个播放器时区分保存的设置和标记，未指定时使用全局的 key
+  fillViewport?: boolean; // 铺满整个窗口（iframe 页面），默认跟随容器大小
+  ref?: Ref<PlayerHandle>;
 }
 
-// 存储播放进度的key
-const STORAGE_KEY_PREFIX = 'artplayer_progress_';
-// 存储上一个播放视频URL的key
-const LAST_VIDEO_URL_KEY = 'artplayer_last_video_url';
+// 关闭 Artplayer 自带的固定间隔重连，改为下面按指数退避重试并切换备用地址
+Artplayer.RECONNECT_TIME_MAX = 0;
 
-// 获取保存的播放时间
-function getSavedTime(url: string): number {
-  try {
-    const key = STORAGE_KEY_PREFIX + btoa(url); // 使用Base64编码URL作为key
-    const saved = localStorage.getItem(key);
-    return saved ? parseFloat(saved) : 0;
-  } catch {
-    return 0;
-  }
+// MediaError.code 对应的错误说明（reason 用于日志，message 显示给用户）
+const MEDIA_ERRORS: Record<number, { name: string; reason: string; message: string }> = {
+  1: { name: 'MEDIA_ERR_ABORTED', reason: '用户中止', message: 'Playback was aborted' },
+  2: { name: 'MEDIA_ERR_NETWORK', reason: '网络错误，URL 可能已失效', message: 'Network error, the video link may have expired' },
+  3: { name: 'MEDIA_ERR_DECODE', reason: '解码错误', message: 'The video could not be decoded' },
+  4: { name: 'MEDIA_ERR_SRC_NOT_SUPPORTED', reason: '格式不支持', message: 'The video format is not supported or the source is unavailable' },
+};
+
+// 切换到备用地址或手动重试时的状态（url 为所属的主地址，主地址变化后失效）
+interface FailoverState {
+  url: string;
+  index: number; // 正在播放的地址在 [url, ...backups] 中的位置
+  position: number; // 切换后从该位置继续播放
+  attempt: number; // 每次切换递增，用于重新创建播放器
 }
 
+// 距离结束不足该时长（秒）时预加载下一集
+const NEXT_PREFETCH_TIME = 60;
+
+// 存储上一个播放视频URL的key
+const LAST_VIDEO_URL_KEY = 'artplayer_last_video_url';
+
 // 获取上一个播放的视频URL
-function getLastVideoUrl(): string | null {
+function getLastVideoUrl(storageKey?: string): string | null {
   try {
-    return localStorage.getItem(LAST_VIDEO_URL_KEY);
+    return localStorage.getItem(scopedStorageKey(LAST_VIDEO_URL_KEY, storageKey));
   } catch {
     return null;
   }
 }
 
 // 保存当前视频URL
-function saveCurrentVideoUrl(url: string): void {
+function saveCurrentVideoUrl(url: string, storageKey?: string): void {
   try {
-    localStorage.setItem(LAST_VIDEO_URL_KEY, url);
+    localStorage.setItem(scopedStorageKey(LAST_VIDEO_URL_KEY, storageKey), url);
   } catch (e) {
     console.warn('Failed to save current video URL:', e);
   }
 }
 
-// 保存播放时间
-function savePlayTime(url: string, time: number): void {
-  try {
-    const key = STORAGE_KEY_PREFIX + btoa(url);
-    localStorage.setItem(key, time.toString());
-  } catch (e) {
-    console.warn('Failed to save play time:', e);
-  }
-}
-
-// 自动检测视频类型
-function detectVideoType(url: string, manualType?: string): string {
-  if (manualType) {
-    return manualType;
-  }
-
-  // 提取URL中的文件扩展名（忽略查询参数）
-  const urlWithoutQuery = url.split('?')[0];
-  const extension = urlWithoutQuery.split('.').pop()?.toLowerCase() || '';
-
-  // 映射扩展名到artplayer支持的类型
-  const typeMap: Record<string, string> = {
-    'm3u8': 'hls',
-    'mpd': 'dash',
-    'flv': 'flv',
-    'mp4': 'mp4',
-    'webm': 'webm',
-    'ogg': 'ogg',
-    'ogv': 'ogg',
-    'mov': 'mov',
-    'mkv': 'mkv',
-    'avi': 'avi',
-    'wmv': 'wmv',
-    'ts': 'ts',
-    'm4v': 'mp4'
-  };
-
-  return typeMap[extension] || 'hls'; // 默认为HLS
-}
-
 // 检测是否在 iframe 中运行
 function isInIframe(): boolean {
   try {
@@ -127,14 +183,66 @@ async function clearPreviousVideoCache(previousUrl: string): Promise<void> {
   });
 }
 
-export default function M3U8Player({ url, poster, title, type, autoplay = true, enableIframeFullscreen = true }: M3U8PlayerProps) {
+export default function M3U8Player({ url, poster, title, type, subtitles: subtitlesProp, backups: backupsProp, thumbnails, chapters, series, markers: markersProp, startTime, autoSkip, quality, audioLang, subLang, isLive, lowLatency, latency, room, syncServer, syncRole = 'auto', autoplay = true, config: configProp = DEFAULT_PLAYER_CONFIG, episodes: episodesProp, episodeIndex = -1, onEpisodeChange, enableIframeFullscreen = true, allowedOrigins: allowedOriginsProp, onLoad, storageKey, fillViewport = false, onReady, onPlay, onPause, onTimeUpdate, onEnded, onError, ref }: M3U8PlayerProps) {
+  // 对象和数组参数按内容比较，父组件重新渲染时传入内容相同的新对象不会重新创建播放器
+  const subtitles = useStableValue(subtitlesProp);
+  const backups = useStableValue(backupsProp);
+  const markers = useStableValue(markersProp);
+  const config = useStableValue(configProp);
+  const episodes = useStableValue(episodesProp);
+  const allowedOrigins = useStableValue(allowedOriginsProp);
+
   const artRef = useRef<HTMLDivElement>(null);
   const artPlayerRef = useRef<Artplayer | null>(null);
   const hlsRef = useRef<Hls | null>(null);
+  const dashRef = useRef<DashSession | null>(null);
+  const flvRef = useRef<FlvSession | null>(null);
   const saveTimeoutRef = useRef<number | null>(null);
   const previousUrlRef = useRef<string | null>(null);
   const isInIframeEnv = useRef<boolean>(isInIframe());
 
+  // 接收父页面的控制指令（play/pause/seek/load 等）
+  const bridge = usePlayerBridge(artPlayerRef, isInIframeEnv.current && enableIframeFullscreen, allowedOrigins, onLoad);
+
+  // 用 ref 保存事件回调，回调变化时不重新创建播放器
+  const eventsRef = useRef<PlayerEvents>({});
+  useEffect(() => {
+    eventsRef.current = { onReady, onPlay, onPause, onTimeUpdate, onEnded, onError };
+  }, [onReady, onPlay, onPause, onTimeUpdate, onEnded, onError]);
+
+  useImperativeHandle(ref, () => ({
+    get art() {
+      return artPlayerRef.current;
+    },
+    execute: <C extends PlayerCommand>(command: C) => {
+      const art = artPlayerRef.current;
+      if (!art) return Promise.reject(new Error('Player is not ready'));
+      return executePlayerCommand(art, command, onLoad);
+    }
+  }), [onLoad]);
+
+  // 配置了缓存策略时发给 Service Worker（保存后对同一站点的所有页面生效）
+  useEffect(() => {
+    const policy = toCachePolicyUpdate(config.cache);
+    if (policy) applyCachePolicy(policy);
+  }, [config.cache]);
+
+  // 主地址加上备用地址，依次尝试
+  const sources = useMemo(
+    () => [url, ...(backups ?? []).filter(backup => backup && backup !== url)],
+    [url, backups]
+  );
+  const [failover, setFailover] = useState<FailoverState | null>(null);
+  const current = failover?.url === url ? failover : null;
+  const sourceIndex = Math.min(current?.index ?? 0, sources.length - 1);
+  const sourceUrl = sources[sourceIndex];
+  const resumeAt = current?.position ?? 0;
+  const attempt = current?.attempt ?? 0;
+
+  // 自动检测视频类型（扩展名无法识别时会请求少量数据嗅探，完成前为 null）
+  // 手动指定的类型只作用于主地址，备用地址单独检测
+  const videoType = useVideoType(sourceUrl, sourceIndex === 0 ? type : undefined, config.request);
+
   // 添加调试日志
   // // console.log('[Player] 初始化参数:', {
   //   isInIframe: isInIframeEnv.current,
@@ -143,10 +251,10 @@ export default function M3U8Player({ url, poster, title, type, autoplay = true,
   // });
 
   useEffect(() => {
-    if (!artRef.current || !url) return;
+    if (!artRef.current || !url || !sourceUrl || !videoType) return;
 
     // 获取上一个播放的视频URL（从 localStorage 或 ref）
-    const lastVideoUrl = previousUrlRef.current || getLastVideoUrl();
+    const lastVideoUrl = previousUrlRef.current || getLastVideoUrl(storageKey);
 
     // 检测 URL 变化，清理上一个视频的缓存
     if (lastVideoUrl && lastVideoUrl !== url) {
@@ -156,36 +264,31 @@ export default function M3U8Player({ url, poster, title, type, autoplay = true,
 
     // 保存当前 URL 到 localStorage 和 ref
     previousUrlRef.current = url;
-    saveCurrentVideoUrl(url);
+    saveCurrentVideoUrl(url, storageKey);
+    setCurrentVideo(url);
+    // 预加载和离线下载的请求使用相同的请求头、token 和地址改写
+    setRequestPolicy(config.request);
 
     // 销毁旧的player实例
     if (artPlayerRef.current) {
       artPlayerRef.current.destroy();
     }
 
-    // 自动检测视频类型
-    const videoType = detectVideoType(url, type);
-
-    // 构建配置对象，只包含定义了的值
-    const config: any = {
+    // 构建配置对象，只包含定义了的值（title 和 style 不在 Artplayer 的类型定义中）
+    const option: Option & { title?: string; style?: Partial<CSSStyleDeclaration> } = {
       container: artRef.current,
-      url,
+      url: sourceUrl,
       type: videoType,
       autoplay,
-      fullscreen: true,
-      fullscreenWeb: true,
-      hotkey: true,
-      pip: true,
+      ...config.controls,
+      hotkey: config.hotkey,
+      // 启用触屏手势时由 attachGestures 处理滑动，关闭 Artplayer 自带的滑动调节进度
+      gesture: !config.gestures.enabled,
       mutex: true,
       autoSize: false, // 禁用autoSize，改用objectFit控制
-      autoMini: true,
-      screenshot: true,
-      setting: true,
-      playbackRate: true,
-      aspectRatio: true,
-      flip: true,
-      rotate: true,
-      theme: '#00a1d6',
+      theme: config.theme,
+      muted: config.muted,
+      loop: config.loop,
       style: {
         width: '100%',
         height: '100%'
@@ -267,167 +370,459 @@ export default function M3U8Player({ url, poster, title, type, autoplay = true,
       }
     };
 
+    if (isLive) {
+      option.isLive = true;
+    }
+
+    // 未指定音量时使用观众上次的音量
+    if (config.volume !== undefined) {
+      option.volume = config.volume;
+    }
+
     // 只在poster存在时才添加
     if (poster) {
-      config.poster = poster;
+      option.poster = poster;
     }
 
     // 只在title存在时才添加
     if (title) {
-      config.title = title;
+      option.title = title;
     }
 
-    // 为 HLS 添加自定义类型处理（使用 hls.js 增强）
-    if (videoType === 'hls' || videoType === 'm3u8') {
-      config.customType = {
-        m3u8: (video: HTMLVideoElement, url: string) => {
-          if (Hls.isSupported()) {
-            // 销毁旧的 HLS 实例
-            if (hlsRef.current) {
-              hlsRef.current.destroy();
-            }
+    // 外挂字幕：字幕文本在转换时已转义，关闭 Artplayer 的转义以保留 ASS 样式标签
+    const plugins: NonNullable<Option['plugins']> = [];
+    option.plugins = plugins;
+
+    // Artplayer 的设置（音量、清晰度偏好等）按实例分开保存；插件运行前音量已从全局的设置中读取，这里重新应用
+    if (storageKey) {
+      plugins.push((art: Artplayer) => {
+        art.storage.name = scopedStorageKey(art.storage.name, storageKey);
+        const volume = art.storage.get('volume');
+        if (config.volume === undefined && typeof volume === 'number') {
+          art.volume = volume;
+        }
+      });
+    }
+    if (subtitles && subtitles.length > 0) {
+      option.subtitle = { escape: false };
+      plugins.push(subtitlesPlugin(subtitles));
+    }
 
-            // 创建 HLS 实例，配置预加载策略（混合优化方案）
-            const hls = new Hls({
-              // 缓冲配置 - 平衡流畅度与资源消耗
-              maxBufferLength: 60,           // 预缓冲60秒（保持1分钟预加载）
-              maxMaxBufferLength: 120,       // 最大缓冲上限120秒（保持2分钟上限）
-              maxBufferSize: 50 * 1000 * 1000, // 最大缓冲50MB（降低内存占用）
-              maxBufferHole: 0.5,            // 缓冲区间隙容忍度
-              backBufferLength: 10,          // 只保留10秒已播放内容（节省内存）
-
-              // 加载优化
-              enableWorker: true,            // 使用 Web Worker 处理，不阻塞主线程
-              lowLatencyMode: false,         // 非直播模式，优先缓冲
-
-              // 分片加载策略
-              maxLoadingDelay: 4,            // 最大加载延迟
-              maxFragLookUpTolerance: 0.25,  // 分片查找容忍度
-
-              // 网络优化
-              manifestLoadingTimeOut: 10000, // manifest 加载超时
-              manifestLoadingMaxRetry: 3,    // manifest 加载最大重试次数
-              levelLoadingTimeOut: 10000,    // 级别加载超时
-              levelLoadingMaxRetry: 4,       // 级别加载最大重试次数
-              fragLoadingTimeOut: 20000,     // 分片加载超时
-              fragLoadingMaxRetry: 6,        // 分片加载最大重试次数
-
-              // 启用更激进的预加载
-              startFragPrefetch: true,       // 启动时预加载
-              testBandwidth: true,           // 测试带宽以优化质量选择
-            });
-
-            hlsRef.current = hls;
-
-            // 加载源
-            hls.loadSource(url);
-            hls.attachMedia(video);
-
-            // HLS 事件监听
-            hls.on(Hls.Events.MANIFEST_PARSED, () => {
-              // console.log('[HLS] Manifest parsed, levels:', hls.levels.length);
-            });
-
-            hls.on(Hls.Events.FRAG_LOADED, (_event, _data) => {
-              // console.log('[HLS] Fragment loaded:', data.frag.sn, 'duration:', data.frag.duration);
-            });
-
-            hls.on(Hls.Events.ERROR, (_event, data) => {
-              console.error('[HLS] Error:', data.type, data.details);
-
-              // 致命错误处理
-              if (data.fatal) {
-                switch (data.type) {
-                  case Hls.ErrorTypes.NETWORK_ERROR:
-                    // console.log('[HLS] Network error, trying to recover...');
-                    hls.startLoad();
-                    break;
-                  case Hls.ErrorTypes.MEDIA_ERROR:
-                    // console.log('[HLS] Media error, trying to recover...');
-                    hls.recoverMediaError();
-                    break;
-                  default:
-                    // console.log('[HLS] Fatal error, cannot recover');
-                    hls.destroy();
-                    break;
-                }
-              }
-            });
-
-            // 缓冲状态监控
-            hls.on(Hls.Events.BUFFER_APPENDING, () => {
-              const bufferInfo = hls.media ? {
-                currentTime: hls.media.currentTime,
-                buffered: hls.media.buffered.length > 0
-                  ? hls.media.buffered.end(hls.media.buffered.length - 1) - hls.media.currentTime
-                  : 0
-              } : null;
-
-              if (bufferInfo && bufferInfo.buffered > 0) {
-                // console.log(`[HLS] Buffer: ${bufferInfo.buffered.toFixed(1)}s ahead`);
-              }
-            });
-          } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
-            // iOS Safari 原生支持
-            video.src = url;
-            // console.log('[HLS] Using native HLS support');
+    // 跳过片头/片尾，到达片尾时提示父页面准备下一集
+    if (!isLive) {
+      plugins.push(skipMarkersPlugin({
+        series: series || url,
+        markers: markers ?? {},
+        autoSkip,
+        storageKey,
+        onOutro: () => {
+          if (isInIframeEnv.current && enableIframeFullscreen) {
+            bridge.post({ type: 'PLAYER_NEXT_EPISODE' });
           }
         }
-      };
+      }));
+    }
+
+    // HLS 点播支持离线下载（需要 Service Worker）
+    if (videoType === 'hls' && !isLive && isOfflineDownloadSupported()) {
+      plugins.push(offlineDownloadPlugin({
+        url,
+        title,
+        poster,
+        // 手动选择了清晰度时下载该清晰度
+        getMaxHeight: () => {
+          const hls = hlsRef.current;
+          if (!hls || hls.autoLevelEnabled) return undefined;
+          return hls.levels[hls.currentLevel]?.height || undefined;
+        }
+      }));
+    }
+
+    // HLS 使用 hls.js 增强播放
+    const playHls = (video: HTMLVideoElement, url: string, art: Artplayer) => {
+      if (Hls.isSupported()) {
+        // 销毁旧的 HLS 实例
+        if (hlsRef.current) {
+          hlsRef.current.destroy();
+        }
+
+        // 创建 HLS 实例，配置预加载策略（混合优化方案）
+        const hls = new Hls({
+          // 缓冲配置 - 平衡流畅度与资源消耗
+          // 默认预缓冲 60 秒、上限 120 秒 / 50MB，只保留 10 秒已播放内容（可通过配置调整）
+          maxBufferLength: config.hls.maxBufferLength,
+          maxMaxBufferLength: config.hls.maxMaxBufferLength,
+          maxBufferSize: config.hls.maxBufferSize * 1000 * 1000,
+          maxBufferHole: config.hls.maxBufferHole,
+          backBufferLength: config.hls.backBufferLength,
+
+          // 加载优化
+          enableWorker: true,            // 使用 Web Worker 处理，不阻塞主线程
+          lowLatencyMode: !!lowLatency,  // LL-HLS 只对支持的直播流生效，点播优先缓冲
+          liveSyncDuration: latency,     // 直播目标延迟，不设置时使用 playlist 建议的延迟
+          maxLiveSyncPlaybackRate: 1.5,  // 直播落后目标延迟时最多 1.5 倍速追赶（点播无影响）
+
+          // 分片加载策略
+          maxLoadingDelay: 4,            // 最大加载延迟
+          maxFragLookUpTolerance: 0.25,  // 分片查找容忍度
+
+          // 网络优化
+          manifestLoadingTimeOut: 10000, // manifest 加载超时
+          manifestLoadingMaxRetry: 3,    // manifest 加载最大重试次数
+          levelLoadingTimeOut: 10000,    // 级别加载超时
+          levelLoadingMaxRetry: 4,       // 级别加载最大重试次数
+          fragLoadingTimeOut: 20000,     // 分片加载超时
+          fragLoadingMaxRetry: 6,        // 分片加载最大重试次数
+
+          // 启用更激进的预加载
+          startFragPrefetch: true,       // 启动时预加载
+          testBandwidth: true,           // 测试带宽以优化质量选择
+
+          // 按请求策略为 playlist、分片和密钥请求添加请求头、token 或改写地址
+          ...(config.request && !isRequestPolicyEmpty(config.request) ? { loader: createPolicyLoader(config.request) } : {}),
+        });
+
+        hlsRef.current = hls;
+
+        // 清晰度、音轨和内嵌字幕切换（需要在 loadSource 前监听）
+        attachHlsQuality(art, hls, quality);
+        attachHlsTracks(art, hls, { audioLang, subLang });
+        // Service Worker 根据播放位置预加载后续分片
+        attachHlsPrefetch(art, hls);
+        // 上报码率切换
+        analytics?.attachHls(hls);
+        // playlist 没有 EXT-X-ENDLIST 时切换为直播模式
+        attachHlsLive(art, hls, { latency, onLive: handleLive });
+        // playlist 中的章节（EXT-X-DATERANGE），参数指定了章节时以参数为准
+        attachHlsChapters(hls, (list) => {
+          if (!chapters) chapterControl.set(list);
+        });
+
+        // 加载源
+        hls.loadSource(url);
+        hls.attachMedia(video);
+
+        // HLS 事件监听
+        hls.on(Hls.Events.MANIFEST_PARSED, () => {
+          // console.log('[HLS] Manifest parsed, levels:', hls.levels.length);
+        });
+
+        // 分片加载成功说明网络已恢复，重试次数清零
+        hls.on(Hls.Events.FRAG_LOADED, () => {
+          networkRetrier.reset();
+          mediaRetrier.reset();
+        });
+
+        hls.on(Hls.Events.ERROR, (_event, data) => {
+          console.error('[HLS] Error:', data.type, data.details);
+          stats.recordError(`${data.fatal ? 'Fatal ' : ''}${data.type}: ${data.details}`);
+
+          // 致命错误处理：按指数退避重试，次数用完后切换备用地址
+          if (data.fatal) {
+            const status = data.response?.code ? ` (HTTP ${data.response.code})` : '';
+            switch (data.type) {
+              case Hls.ErrorTypes.NETWORK_ERROR:
+                if (!networkRetrier.schedule(() => hls.startLoad())) {
+                  handleFatalError('Network error, the video could not be loaded', `${data.details}${status}`);
+                }
+                break;
+              case Hls.ErrorTypes.MEDIA_ERROR:
+                if (!mediaRetrier.schedule(() => hls.recoverMediaError())) {
+                  handleFatalError('The video could not be decoded', data.details);
+                }
+                break;
+              default:
+                hls.destroy();
+                hlsRef.current = null;
+                handleFatalError('The video could not be played', data.details);
+                break;
+            }
+          }
+        });
+
+        // 缓冲状态监控
+        hls.on(Hls.Events.BUFFER_APPENDING, () => {
+          const bufferInfo = hls.media ? {
+            currentTime: hls.media.currentTime,
+            buffered: hls.media.buffered.length > 0
+              ? hls.media.buffered.end(hls.media.buffered.length - 1) - hls.media.currentTime
+              : 0
+          } : null;
+
+          if (bufferInfo && bufferInfo.buffered > 0) {
+            // console.log(`[HLS] Buffer: ${bufferInfo.buffered.toFixed(1)}s ahead`);
+          }
+        });
+      } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
+        // iOS Safari 原生支持
+        video.src = url;
+        warnNativeRequestPolicy();
+        // console.log('[HLS] Using native HLS support');
+      }
+    };
+
+    // 原生播放的请求由浏览器发出，无法应用请求策略
+    const warnNativeRequestPolicy = () => {
+      if (config.request && !isRequestPolicyEmpty(config.request)) {
+        console.warn('[Player] The request policy is not applied to native playback:', videoType);
+      }
+    };
+
+    // DASH 使用 dash.js 播放（自适应码率）
+    const playDash = async (video: HTMLVideoElement, url: string, art: Artplayer) => {
+      // 销毁旧的 DASH 实例
+      dashRef.current?.destroy();
+      dashRef.current = null;
+
+      const session = await createDashPlayer(video, url, (reason) => {
+        handleFatalError('The video could not be played', reason);
+      }, config.request);
+      // 加载 dash.js 期间播放器可能已被销毁（切换了视频）
+      if (art.isDestroy) {
+        session?.destroy();
+        return;
+      }
+      if (!session) {
+        art.notice.show = 'DASH is not supported in this browser';
+        return;
+      }
+      dashRef.current = session;
+    };
+
+    // FLV / HTTP-FLV 直播使用 mpegts.js 转封装播放
+    const playFlv = async (video: HTMLVideoElement, url: string, art: Artplayer) => {
+      // 销毁旧的 FLV 实例
+      flvRef.current?.destroy();
+      flvRef.current = null;
+
+      const session = await createFlvPlayer(video, url, !!isLive, (reason) => {
+        handleFatalError('The video could not be played', reason);
+      }, config.request);
+      if (art.isDestroy) {
+        session?.destroy();
+        return;
+      }
+      if (!session) {
+        art.notice.show = 'FLV is not supported in this browser';
+        return;
+      }
+      flvRef.current = session;
+    };
+
+    // 每个播放器实例各自的重试计数，销毁时取消等待中的重试
+    const networkRetrier = createRetrier();
+    const mediaRetrier = createRetrier();
+    const nativeRetrier = createRetrier();
+
+    // 直播不保存进度，也不能离线下载
+    let live = !!isLive;
+    const handleLive = () => {
+      live = true;
+      if (art.setting.find('offline-download')) {
+        art.setting.remove('offline-download');
+      }
+    };
+
+    // 重试用完后切换到下一个备用地址并保持播放位置，没有备用地址时显示错误
+    let failed = false;
+    const handleFatalError = (reason: string, detail?: string, code?: number) => {
+      if (failed || art.isDestroy) return;
+      failed = true;
+      stats.recordError(detail ? `${reason}: ${detail}` : reason);
+      analytics?.recordError(detail ? `${reason}: ${detail}` : reason, code);
+
+      const position = Math.max(art.currentTime || 0, resumeAt);
+      if (sourceIndex + 1 < sources.length) {
+        console.warn('[Player] Switching to backup source:', sources[sourceIndex + 1]);
+        art.notice.show = 'Switching to backup source...';
+        setFailover({ url, index: sourceIndex + 1, position, attempt: attempt + 1 });
+        return;
+      }
+
+      errorOverlay.show(reason, detail);
+      eventsRef.current.onError?.({ code, message: detail ? `${reason}: ${detail}` : reason });
+      if (isInIframeEnv.current && enableIframeFullscreen) {
+        bridge.postState(art, 'PLAYER_ERROR', {
+          error: { code, message: detail ? `${reason}: ${detail}` : reason }
+        });
+      }
+    };
+
+    // customType 的 key 需要与 detectVideoType 返回的类型一致
+    option.customType = {
+      hls: playHls,
+      m3u8: playHls,
+      dash: playDash,
+      mpd: playDash,
+      flv: playFlv
+    };
+
+    if (!(videoType in option.customType)) {
+      warnNativeRequestPolicy();
     }
 
-    const art = new Artplayer(config);
+    const art = new Artplayer(option);
 
     artPlayerRef.current = art;
 
+    // 手动重试从主地址重新开始
+    const errorOverlay = attachErrorOverlay(art, () => {
+      setFailover({ url, index: 0, position: Math.max(art.currentTime || 0, resumeAt), attempt: attempt + 1 });
+    });
+
+    if (isLive) {
+      enableLiveMode(art);
+    }
+
+    // 触屏手势（鼠标等精确指针的设备上不启用）
+    attachGestures(art, config.gestures, { isLive: () => live, synced: !!room && !isLive });
+
+    // 播放列表：上一集/下一集、剧集面板和自动播放下一集
+    if (episodes && episodes.length > 1 && episodeIndex >= 0 && onEpisodeChange) {
+      attachPlaylist(art, { entries: episodes, index: episodeIndex, onSelect: onEpisodeChange });
+
+      // 快播完时预加载下一集（HLS）的开头，按当前清晰度选择
+      const next = episodes[episodeIndex + 1];
+      if (next && !isLive && detectVideoType(next.url, next.type) === 'hls') {
+        let nextPrefetched = false;
+        art.on('video:timeupdate', () => {
+          if (nextPrefetched || live || !(art.duration - art.currentTime < NEXT_PREFETCH_TIME)) return;
+          nextPrefetched = true;
+          const hls = hlsRef.current;
+          prefetchVideo(next.url, hls?.levels[hls.currentLevel]?.height || undefined);
+        });
+      }
+    }
+
+    // 一起看（直播没有共同的进度，不同步）
+    if (room && !isLive) {
+      attachSyncPlayback(art, { room, server: syncServer, role: syncRole, url });
+    }
+
+    // 进度条预览图：优先使用缩略图轨道，HLS 没有时尝试从 I-frame playlist 生成
+    if (!isLive) {
+      if (thumbnails) {
+        attachThumbnailPreview(art, createVttThumbnailProvider(thumbnails));
+      } else if (videoType === 'hls' && isIFrameThumbnailSupported()) {
+        attachThumbnailPreview(art, createIFrameThumbnailProvider(sourceUrl, config.request));
+      }
+    }
+
+    // 原生播放（如 Safari 的 HLS）直播的 duration 为 Infinity
+    art.on('video:durationchange', () => {
+      if (live || hlsRef.current || art.video.duration !== Infinity) return;
+      enableLiveMode(art);
+      handleLive();
+    });
+
+    // 调试信息面板（右键菜单 / Shift+I）
+    const stats = attachPlaybackStats(art, {
+      url: sourceUrl,
+      type: videoType,
+      getHls: () => hlsRef.current,
+      getDash: () => dashRef.current,
+      getFlv: () => flvRef.current
+    });
+
+    // 播放质量上报（配置了 beacon 时）
+    const analytics = attachAnalytics(art, config.analytics, { url: sourceUrl, type: videoType, live: !!isLive, autoplay });
+
+    // 章节标记和章节列表
+    const chapterControl = attachChapters(art, title);
+    if (chapters) {
+      loadChapters(chapters)
+        .then((list) => {
+          if (!art.isDestroy) chapterControl.set(list);
+        })
+        .catch((e) => {
+          console.error('[Chapters] Failed to load chapters:', e);
+          if (!art.isDestroy) art.notice.show = 'Failed to load chapters';
+        });
+    }
+
+    // 组件事件
+    art.on('ready', () => eventsRef.current.onReady?.(getPlayerState(art)));
+    art.on('play', () => eventsRef.current.onPlay?.(getPlayerState(art)));
+    art.on('pause', () => eventsRef.current.onPause?.(getPlayerState(art)));
+    art.on('video:timeupdate', () => eventsRef.current.onTimeUpdate?.(getPlayerState(art)));
+    art.on('video:ended', () => eventsRef.current.onEnded?.(getPlayerState(art)));
+
     // 如果在iframe中且启用了iframe全屏通信
     if (isInIframeEnv.current && enableIframeFullscreen) {
       // 监听网页全屏事件
       art.on('fullscreenWeb', (isFullscreenWeb) => {
-        try {
-          // 通知父页面进行全屏切换
-          window.parent.postMessage({
-            type: 'PLAYER_FULLSCREEN_WEB',
-            fullscreen: isFullscreenWeb,
-            source: 'artplayer'
-          }, '*');
-          // console.log(`[Player] Sent fullscreenWeb message to parent: ${isFullscreenWeb}`);
-        } catch (e) {
-          console.warn('[Player] Failed to communicate with parent window:', e);
-        }
+        // 通知父页面进行全屏切换
+        bridge.post({
+          type: 'PLAYER_FULLSCREEN_WEB',
+          fullscreen: isFullscreenWeb
+        });
+        // console.log(`[Player] Sent fullscreenWeb message to parent: ${isFullscreenWeb}`);
       });
 
       // 监听真全屏事件
       art.on('fullscreen', (isFullscreen) => {
-        try {
-          window.parent.postMessage({
-            type: 'PLAYER_FULLSCREEN',
-            fullscreen: isFullscreen,
-            source: 'artplayer'
-          }, '*');
-          // console.log(`[Player] Sent fullscreen message to parent: ${isFullscreen}`);
-        } catch (e) {
-          console.warn('[Player] Failed to communicate with parent window:', e);
-        }
+        bridge.post({
+          type: 'PLAYER_FULLSCREEN',
+          fullscreen: isFullscreen
+        });
+        // console.log(`[Player] Sent fullscreen message to parent: ${isFullscreen}`);
+      });
+
+      // 向父页面推送播放状态，方便父页面自建 UI
+      art.on('ready', () => {
+        bridge.postState(art, 'PLAYER_READY');
+      });
+
+      // timeupdate 每秒触发多次，限制为每秒推送一次
+      let lastTimeUpdateAt = 0;
+      art.on('video:timeupdate', () => {
+        const now = Date.now();
+        if (now - lastTimeUpdateAt < TIMEUPDATE_INTERVAL) return;
+        lastTimeUpdateAt = now;
+        bridge.postState(art, 'PLAYER_TIMEUPDATE');
+      });
+
+      art.on('video:progress', () => {
+        bridge.postState(art, 'PLAYER_PROGRESS');
       });
     }
 
-    // 播放器加载完成后，恢复上次保存的播放时间
-    art.on('ready', () => {
-      const savedTime = getSavedTime(url);
-      if (savedTime > 0) {
-        art.currentTime = savedTime;
-        // console.log(`Restored playback time: ${savedTime}s`);
+    // 保存观看记录（恢复进度之前不保存，避免覆盖上次的进度；直播不保存）
+    let restored = false;
+    const savePlayTime = () => {
+      if (!restored || live) return;
+      saveWatchProgress(url, { position: art.currentTime, duration: art.duration, title, poster, type });
+    };
+
+    // 播放器加载完成后，恢复上次保存的播放时间（已看完的视频从头播放）
+    art.on('ready', async () => {
+      // 切换备用地址或重试后从出错的位置继续
+      if (resumeAt > 0) {
+        art.currentTime = resumeAt;
+        restored = true;
+        return;
+      }
+      // 指定了起播时间（t 参数）时不恢复观看记录
+      if (startTime !== undefined && !live) {
+        art.currentTime = startTime;
+        restored = true;
+        return;
       }
+      const record = await getWatchRecord(url);
+      if (art.isDestroy || live) return;
+      if (record && !record.completed && record.position > 0) {
+        art.currentTime = record.position;
+        // console.log(`Restored playback time: ${record.position}s`);
+      }
+      restored = true;
     });
 
     // 监听时间更新，定期保存播放进度（每秒最多保存一次）
     art.on('timeupdate', () => {
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current);
-      }
-      saveTimeoutRef.current = setTimeout(() => {
-        savePlayTime(url, art.currentTime);
+      if (saveTimeoutRef.current) return;
+      saveTimeoutRef.current = window.setTimeout(() => {
+        saveTimeoutRef.current = null;
+        savePlayTime();
       }, 1000); // 每秒钟保存一次
     });
 
@@ -438,54 +833,66 @@ export default function M3U8Player({ url, poster, title, type, autoplay = true,
 
     art.on('pause', () => {
       // 暂停时立即保存当前时间
-      savePlayTime(url, art.currentTime);
+      savePlayTime();
       // console.log('Video paused, time saved');
     });
 
-    art.on('error', (error) => {
-      const video = art.video;
-      const mediaErr = video?.error;
-      const codeMap: Record<number, string> = {
-        1: 'MEDIA_ERR_ABORTED（用户中止）',
-        2: 'MEDIA_ERR_NETWORK（网络错误，URL 可能已失效）',
-        3: 'MEDIA_ERR_DECODE（解码错误）',
-        4: 'MEDIA_ERR_SRC_NOT_SUPPORTED（格式不支持）',
-      };
+    art.on('video:error', (error) => {
+      const mediaErr = art.video?.error;
+      const info = mediaErr ? MEDIA_ERRORS[mediaErr.code] : undefined;
       console.error('[Player] Playback error:', {
         code: mediaErr?.code,
-        reason: mediaErr ? (codeMap[mediaErr.code] ?? '未知') : '无 MediaError',
+        reason: info ? `${info.name}（${info.reason}）` : mediaErr ? '未知' : '无 MediaError',
         message: mediaErr?.message,
-        url: url,
+        url: sourceUrl,
         event: error,
       });
+
+      // hls.js / dash.js / mpegts.js 有自己的错误处理，这里只处理原生播放
+      if (hlsRef.current || dashRef.current || flvRef.current) return;
+
+      const position = art.currentTime;
+      const scheduled = nativeRetrier.schedule(() => {
+        art.url = sourceUrl;
+        art.once('video:loadedmetadata', () => {
+          if (position > 0) art.currentTime = position;
+        });
+      });
+      if (!scheduled) {
+        handleFatalError(
+          info?.message ?? 'The video could not be played',
+          mediaErr?.message || info?.name,
+          mediaErr?.code
+        );
+      }
+    });
+
+    // 显示错误后播放又恢复了（如网络恢复后缓冲的内容继续播放）：隐藏错误提示，之后的错误重新处理
+    art.on('video:playing', () => {
+      nativeRetrier.reset();
+      if (failed) {
+        failed = false;
+        errorOverlay.hide();
+      }
     });
 
     // 视频播放结束时保存进度
     art.on('ended', () => {
-      savePlayTime(url, art.currentTime);
+      savePlayTime();
       // // console.log('[Player] Video ended, time saved');
       // // console.log('[Player] isInIframeEnv:', isInIframeEnv.current);
       // // console.log('[Player] enableIframeFullscreen:', enableIframeFullscreen);
       
       // 如果在iframe中，通知父页面视频播放结束
       if (isInIframeEnv.current && enableIframeFullscreen) {
-        try {
-          window.parent.postMessage({
-            type: 'PLAYER_ENDED',
-            source: 'artplayer'
-          }, '*');
-          // // console.log('[Player] Sent ended message to parent');
-        } catch (e) {
-          console.warn('[Player] Failed to send ended message:', e);
-        }
+        bridge.post({ type: 'PLAYER_ENDED' });
+        // // console.log('[Player] Sent ended message to parent');
       }
     });
 
     // 页面关闭前保存进度
     const handleBeforeUnload = () => {
-      if (artPlayerRef.current) {
-        savePlayTime(url, artPlayerRef.current.currentTime);
-      }
+      savePlayTime();
     };
     window.addEventListener('beforeunload', handleBeforeUnload);
 
@@ -496,15 +903,8 @@ export default function M3U8Player({ url, poster, title, type, autoplay = true,
       
       // 如果在iframe中，通知父页面视频播放结束
       if (isInIframeEnv.current && enableIframeFullscreen) {
-        try {
-          window.parent.postMessage({
-            type: 'PLAYER_ENDED',
-            source: 'artplayer'
-          }, '*');
-          // // console.log('[Player] Sent ended message to parent (from native event)');
-        } catch (e) {
-          console.warn('[Player] Failed to send ended message:', e);
-        }
+        bridge.post({ type: 'PLAYER_ENDED' });
+        // // console.log('[Player] Sent ended message to parent (from native event)');
       }
     };
     videoElement.addEventListener('ended', handleVideoEnded);
@@ -512,32 +912,48 @@ export default function M3U8Player({ url, poster, title, type, autoplay = true,
     return () => {
       // 清理资源前保存当前播放时间
       if (artPlayerRef.current) {
-        savePlayTime(url, artPlayerRef.current.currentTime);
+        savePlayTime();
       }
 
       if (saveTimeoutRef.current) {
         clearTimeout(saveTimeoutRef.current);
+        saveTimeoutRef.current = null;
       }
 
       window.removeEventListener('beforeunload', handleBeforeUnload);
       videoElement.removeEventListener('ended', handleVideoEnded);
 
+      networkRetrier.cancel();
+      mediaRetrier.cancel();
+      nativeRetrier.cancel();
+
       // 销毁 HLS 实例
       if (hlsRef.current) {
         hlsRef.current.destroy();
         hlsRef.current = null;
       }
 
+      // 销毁 DASH / FLV 实例
+      if (dashRef.current) {
+        dashRef.current.destroy();
+        dashRef.current = null;
+      }
+
+      if (flvRef.current) {
+        flvRef.current.destroy();
+        flvRef.current = null;
+      }
+
       if (artPlayerRef.current) {
         artPlayerRef.current.destroy();
         artPlayerRef.current = null;
       }
     };
-  }, [url, poster, title, type, autoplay]);
+  }, [url, sourceUrl, sources, sourceIndex, resumeAt, attempt, poster, title, type, videoType, subtitles, thumbnails, chapters, series, markers, startTime, autoSkip, quality, audioLang, subLang, isLive, lowLatency, latency, room, syncServer, syncRole, autoplay, config, episodes, episodeIndex, onEpisodeChange, enableIframeFullscreen, bridge, storageKey]);
 
   return (
     <div
-      style={{
+      style={fillViewport ? {
         width: '100vw',
         // dvh = dynamic viewport height，会随手机浏览器地址栏显隐动态调整
         // 降级为 100vh（不支持 dvh 的旧浏览器）
@@ -550,6 +966,13 @@ export default function M3U8Player({ url, poster, title, type, autoplay = true,
         alignItems: 'center',
         justifyContent: 'center',
         overflow: 'hidden'
+      } : {
+        // 跟随容器大小，同一页面可以放多个播放器
+        width: '100%',
+        height: '100%',
+        backgroundColor: '#000',
+        position: 'relative',
+        overflow: 'hidden'
       }}
     >
       <div
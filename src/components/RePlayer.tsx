@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useMemo, useState, type Ref } from 'react';
+import M3U8Player, { type PlayerEvents, type PlayerHandle } from './M3U8Player';
+import { usePlayerConfig } from '../hooks/usePlayerConfig';
+import type { PlayerSource } from '../utils/playerBridge';
+import { parsePlayerParams } from '../utils/playerParams';
+import { loadPlaylist, type PlaylistEntry } from '../utils/playlist';
+
+export interface RePlayerProps extends PlayerEvents {
+  search: URLSearchParams; // 与 iframe 页面查询参数相同的播放参数和配置
+  storageKey?: string; // 同一页面有多个播放器时区分保存的设置
+  presetBaseUrl?: string; // 预设（preset 参数）所在的目录，默认为应用的 presets/
+  fillViewport?: boolean; // 铺满整个窗口，默认跟随容器大小
+  ref?: Ref<PlayerHandle>;
+}
+
+// 由参数驱动的播放器：解析参数和配置、加载播放列表、响应 load 指令
+// iframe 页面和 <re-player> 元素都使用这个组件
+// search 按内容比较：内容不变时父组件传入新的 URLSearchParams 不会重新加载配置；
+// 内容变化时重新创建播放器（当前播放源、播放列表等状态回到新参数的初始值）
+export default function RePlayer({ search, ...props }: RePlayerProps) {
+  const searchKey = search.toString();
+  const stableSearch = useMemo(() => new URLSearchParams(searchKey), [searchKey]);
+  return <RePlayerContent key={searchKey} search={stableSearch} {...props} />;
+}
+
+function RePlayerContent({ search, storageKey, presetBaseUrl, fillViewport, onReady, onPlay, onPause, onTimeUpdate, onEnded, onError, ref }: RePlayerProps) {
+  const params = useMemo(() => parsePlayerParams(search), [search]);
+  // 主题、控件、缓冲等播放器配置（可能需要下载预设）
+  const config = usePlayerConfig(search, presetBaseUrl);
+  const { autoplay, enableIframeFullscreen, allowedOrigins, quality, audioLang, subLang, isLive, lowLatency, latency, autoSkip, room, syncServer, syncRole } = params;
+  // 当前播放源，父页面或 execute 可通过 load 指令替换，无需重新创建组件
+  const [source, setSource] = useState<PlayerSource | null>(
+    params.url
+      ? { url: params.url, poster: params.poster, title: params.title, type: params.type, subtitles: params.subtitles, backups: params.backups, thumbnails: params.thumbnails, chapters: params.chapters, series: params.series, markers: params.markers }
+      : null
+  );
+  // 播放列表（剧集）和当前剧集，-1 表示当前视频不在列表中
+  const [episodes, setEpisodes] = useState<PlaylistEntry[] | null>(null);
+  const [episodeIndex, setEpisodeIndex] = useState(-1);
+  const [playlistLoading, setPlaylistLoading] = useState(!!params.playlist);
+  // 同一播放列表的剧集共用片头/片尾记忆
+  const playlistSeries = params.series ?? params.playlist;
+
+  const playEpisode = useCallback((entries: PlaylistEntry[], index: number) => {
+    const entry = entries[index];
+    setEpisodeIndex(index);
+    setSource({
+      url: entry.url,
+      title: entry.title,
+      poster: entry.poster,
+      type: entry.type,
+      subtitles: entry.subtitles,
+      series: playlistSeries
+    });
+  }, [playlistSeries]);
+
+  useEffect(() => {
+    if (!params.playlist) return;
+    let cancelled = false;
+    loadPlaylist(params.playlist)
+      .then(entries => {
+        if (cancelled) return;
+        setEpisodes(entries);
+        // url 参数的视频在列表中时从该集开始，未指定 url 时从第一集开始
+        const index = params.url ? entries.findIndex(entry => entry.url === params.url) : 0;
+        if (index >= 0) {
+          setEpisodeIndex(index);
+          if (!params.url) playEpisode(entries, index);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load playlist:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setPlaylistLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [params.playlist, params.url, playEpisode]);
+
+  const handleEpisodeChange = useCallback((index: number) => {
+    if (episodes) playEpisode(episodes, index);
+  }, [episodes, playEpisode]);
+
+  // load 指令切换视频时，如果新视频在播放列表中则同步当前剧集
+  const handleLoad = useCallback((next: PlayerSource) => {
+    setSource(next);
+    setEpisodeIndex(episodes ? episodes.findIndex(entry => entry.url === next.url) : -1);
+  }, [episodes]);
+
+  const { url, poster, title, type, subtitles, backups, thumbnails, chapters, series, markers } = source ?? {};
+  // t 参数只作用于 url 参数的视频，load 指令切换的视频使用指令中的起播时间
+  const startTime = source?.startTime ?? (url === params.url ? config?.startTime : undefined);
+
+  // 等待播放列表加载完成后再决定播放哪一集，避免加载后重建播放器
+  if (playlistLoading) {
+    return null;
+  }
+
+  // 等待配置加载完成（没有视频地址时，如播放列表加载失败，不显示播放器）
+  if (!url || !config) {
+    return null;
+  }
+
+  return (
+    <M3U8Player
+      url={url}
+      poster={poster}
+      title={title}
+      type={type}
+      subtitles={subtitles}
+      backups={backups}
+      thumbnails={thumbnails}
+      chapters={chapters}
+      series={series}
+      markers={markers}
+      startTime={startTime}
+      autoSkip={autoSkip}
+      quality={quality}
+      audioLang={audioLang}
+      subLang={subLang}
+      isLive={isLive}
+      lowLatency={lowLatency}
+      latency={latency}
+      room={room}
+      syncServer={syncServer}
+      syncRole={syncRole}
+      autoplay={autoplay}
+      enableIframeFullscreen={enableIframeFullscreen}
+      allowedOrigins={allowedOrigins}
+      config={config}
+      episodes={episodes ?? undefined}
+      episodeIndex={episodeIndex}
+      onEpisodeChange={handleEpisodeChange}
+      onLoad={handleLoad}
+      storageKey={storageKey}
+      fillViewport={fillViewport}
+      onReady={onReady}
+      onPlay={onPlay}
+      onPause={onPause}
+      onTimeUpdate={onTimeUpdate}
+      onEnded={onEnded}
+      onError={onError}
+      ref={ref}
+    />
+  );
+}
@@ -0,0 +1,177 @@
+import { createRef } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import RePlayer from './components/RePlayer';
+import type { PlayerError, PlayerHandle } from './components/M3U8Player';
+import type { PlayerCommand, PlayerCommandResult, PlayerSource, PlayerState } from './utils/playerBridge';
+import { CONFIG_PARAM_NAMES } from './utils/playerConfig';
+import { PLAYER_PARAM_NAMES } from './utils/playerParams';
+import './element.css';
+
+// <re-player> 自定义元素：属性与 iframe 页面的查询参数相同，如
+// <re-player url="https://example.com/index.m3u8" title="Demo" theme="ff6600" controls="-pip"></re-player>
+// 大小由元素本身决定（默认宽度 100%、16:9），同一页面可以放多个
+
+export const ELEMENT_NAME = 're-player';
+
+// 可以重复的参数，属性中用换行分隔多个值
+const MULTI_VALUE_PARAMS = ['subtitle', 'backup', 'header', 'token'];
+
+// HTML 属性名不区分大小写，同时支持 audiolang 和 audio-lang 两种写法
+function toAttributeNames(name: string): string[] {
+  const kebab = name.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+  return kebab === name.toLowerCase() ? [kebab] : [name.toLowerCase(), kebab];
+}
+
+const PARAM_ATTRIBUTES = new Map(
+  [...PLAYER_PARAM_NAMES, ...CONFIG_PARAM_NAMES].flatMap(name =>
+    toAttributeNames(name).map(attribute => [attribute, name] as const)
+  )
+);
+
+// 元素派发的事件及其 detail：播放状态（player-error 为错误信息）
+export interface RePlayerEventDetail {
+  'player-ready': PlayerState;
+  'player-play': PlayerState;
+  'player-pause': PlayerState;
+  'player-timeupdate': PlayerState;
+  'player-ended': PlayerState;
+  'player-error': PlayerError;
+}
+
+export type RePlayerEventMap = HTMLElementEventMap & {
+  [K in keyof RePlayerEventDetail]: CustomEvent<RePlayerEventDetail[K]>;
+};
+
+// 未指定 storage-key 和 id 时按创建顺序编号，避免多个实例共用保存的设置
+let instanceCount = 0;
+
+export class RePlayerElement extends HTMLElement {
+  static observedAttributes = [...PARAM_ATTRIBUTES.keys(), 'storage-key', 'preset-base'];
+
+  private root: Root | null = null;
+  private readonly handle = createRef<PlayerHandle>();
+  private readonly instanceKey = `${ELEMENT_NAME}-${++instanceCount}`;
+  private renderPending = false;
+
+  connectedCallback() {
+    this.root = createRoot(this);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback() {
+    // 同时修改多个属性时只重新渲染一次
+    if (!this.root || this.renderPending) return;
+    this.renderPending = true;
+    queueMicrotask(() => {
+      this.renderPending = false;
+      this.render();
+    });
+  }
+
+  // 属性转换为查询参数
+  get search(): URLSearchParams {
+    const search = new URLSearchParams();
+    for (const { name, value } of Array.from(this.attributes)) {
+      const param = PARAM_ATTRIBUTES.get(name);
+      if (!param) continue;
+      const values = MULTI_VALUE_PARAMS.includes(param)
+        ? value.split('\n').map(item => item.trim()).filter(Boolean)
+        : [value];
+      values.forEach(item => search.append(param, item));
+    }
+    // 页面中的元素默认不与父页面通信（需要时设置 enable-iframe-fullscreen="true"）
+    if (!search.has('enableIframeFullscreen')) {
+      search.set('enableIframeFullscreen', 'false');
+    }
+    return search;
+  }
+
+  get storageKey(): string {
+    return this.getAttribute('storage-key') || this.id || this.instanceKey;
+  }
+
+  // 当前的 Artplayer 实例，播放器创建前为 null
+  get art() {
+    return this.handle.current?.art ?? null;
+  }
+
+  // 执行与父页面 PLAYER_COMMAND 相同的指令
+  execute<C extends PlayerCommand>(command: C): Promise<PlayerCommandResult<C>> {
+    return this.handle.current?.execute(command) ?? Promise.reject(new Error('Player is not ready'));
+  }
+
+  play(): Promise<PlayerState> {
+    return this.execute({ command: 'play' });
+  }
+
+  pause(): Promise<PlayerState> {
+    return this.execute({ command: 'pause' });
+  }
+
+  seek(time: number): Promise<PlayerState> {
+    return this.execute({ command: 'seek', time });
+  }
+
+  // 切换视频，不修改元素的属性；只确认收到指令，新视频就绪时触发 player-ready 事件
+  load(source: PlayerSource): Promise<null> {
+    return this.execute({ command: 'load', ...source, ...source.markers });
+  }
+
+  getState(): Promise<PlayerState> {
+    return this.execute({ command: 'getState' });
+  }
+
+  private dispatch<K extends keyof RePlayerEventDetail>(type: K, detail: RePlayerEventDetail[K]) {
+    this.dispatchEvent(new CustomEvent(type, { detail }));
+  }
+
+  private render() {
+    const search = this.search;
+    // 属性变化后重新创建播放器
+    this.root?.render(
+      <RePlayer
+        key={search.toString()}
+        search={search}
+        storageKey={this.storageKey}
+        presetBaseUrl={this.getAttribute('preset-base') || undefined}
+        onReady={state => this.dispatch('player-ready', state)}
+        onPlay={state => this.dispatch('player-play', state)}
+        onPause={state => this.dispatch('player-pause', state)}
+        onTimeUpdate={state => this.dispatch('player-timeupdate', state)}
+        onEnded={state => this.dispatch('player-ended', state)}
+        onError={error => this.dispatch('player-error', error)}
+        ref={this.handle}
+      />
+    );
+  }
+
+  addEventListener<K extends keyof RePlayerEventMap>(type: K, listener: (this: RePlayerElement, event: RePlayerEventMap[K]) => unknown, options?: boolean | AddEventListenerOptions): void;
+  addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+  addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void {
+    super.addEventListener(type, listener, options);
+  }
+
+  removeEventListener<K extends keyof RePlayerEventMap>(type: K, listener: (this: RePlayerElement, event: RePlayerEventMap[K]) => unknown, options?: boolean | EventListenerOptions): void;
+  removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
+  removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void {
+    super.removeEventListener(type, listener, options);
+  }
+}
+
+// 注册 <re-player>，重复调用时忽略
+export function defineRePlayerElement(name = ELEMENT_NAME): void {
+  if (!customElements.get(name)) {
+    customElements.define(name, RePlayerElement);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    're-player': RePlayerElement;
+  }
+}
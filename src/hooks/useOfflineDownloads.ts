@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { deleteDownload, listDownloads, type DownloadInfo } from '../utils/offlineDownload';
+
+// 有下载进行中时的刷新间隔
+const REFRESH_INTERVAL = 2000;
+
+// 读取离线下载列表，下载中时定时刷新进度
+export function useOfflineDownloads() {
+  const [downloads, setDownloads] = useState<DownloadInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDownloads(await listDownloads());
+    } catch (e) {
+      console.warn('[Offline] Failed to list downloads:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const downloading = downloads.some(item => item.status === 'downloading');
+  useEffect(() => {
+    if (!downloading) return;
+    const timer = window.setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [downloading, refresh]);
+
+  const remove = useCallback(async (url: string) => {
+    try {
+      await deleteDownload(url);
+      setDownloads(list => list.filter(item => item.url !== url));
+    } catch (e) {
+      console.warn('[Offline] Failed to delete download:', e);
+    }
+  }, []);
+
+  return { downloads, remove };
+}
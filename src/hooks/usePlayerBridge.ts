@@ -0,0 +1,103 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { RefObject } from 'react';
+import type Artplayer from 'artplayer';
+import {
+  createPlayerBridge,
+  executePlayerCommand,
+  getPlayerState,
+  isHandshakeMessage,
+  isPlayerCommandMessage,
+  isSupportedVersion,
+  PROTOCOL_VERSION,
+  resolveAllowedOrigins,
+  type PlayerBridge,
+  type PlayerSource
+} from '../utils/playerBridge';
+
+// 与父页面握手，监听控制指令，并按 requestId 回复执行结果
+// 返回该播放器的通信状态，用于向父页面推送事件；允许的来源变化时重新创建（需要重新握手）
+export function usePlayerBridge(
+  artPlayerRef: RefObject<Artplayer | null>,
+  enabled: boolean,
+  allowedOrigins: string[] = [],
+  onLoad?: (source: PlayerSource) => void
+): PlayerBridge {
+  // 用 ref 保存回调，避免每次渲染都重新绑定监听
+  const onLoadRef = useRef(onLoad);
+  useEffect(() => {
+    onLoadRef.current = onLoad;
+  }, [onLoad]);
+
+  const originsKey = allowedOrigins.join(',');
+  const bridge = useMemo(
+    () => createPlayerBridge(resolveAllowedOrigins(originsKey ? originsKey.split(',') : [])),
+    [originsKey]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (bridge.allowedOrigins.includes('*')) {
+      console.warn('[Player] allowedOrigins includes "*", any parent page can control this player');
+    }
+
+    const handleMessage = async (event: MessageEvent) => {
+      // 只接受来自直接父页面的消息
+      if (event.source !== window.parent) return;
+
+      if (isHandshakeMessage(event.data)) {
+        if (!isSupportedVersion(event.data.version)) {
+          console.warn('[Player] Unsupported protocol version:', event.data.version);
+          return;
+        }
+        if (bridge.acceptHandshake(event.origin)) {
+          const art = artPlayerRef.current;
+          bridge.post({
+            type: 'PLAYER_HANDSHAKE_ACK',
+            state: art ? getPlayerState(art) : null
+          }, true);
+        }
+        return;
+      }
+
+      if (!isPlayerCommandMessage(event.data)) return;
+
+      // 指令必须来自握手时验证过的来源
+      if (event.origin !== bridge.getVerifiedOrigin()) {
+        console.warn('[Player] Ignored command from unverified origin:', event.origin);
+        return;
+      }
+
+      const { requestId, command, version } = event.data;
+      const art = artPlayerRef.current;
+
+      try {
+        if (!isSupportedVersion(version)) {
+          throw new Error(`Unsupported protocol version ${version}, expected ${PROTOCOL_VERSION}`);
+        }
+        if (!art) {
+          throw new Error('Player is not ready');
+        }
+        const state = await executePlayerCommand(art, event.data, onLoadRef.current);
+        bridge.post({ type: 'PLAYER_RESPONSE', requestId, command, success: true, state }, true);
+      } catch (e) {
+        bridge.post({
+          type: 'PLAYER_RESPONSE',
+          requestId,
+          command,
+          success: false,
+          error: e instanceof Error ? e.message : String(e)
+        }, true);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+
+    // 通知父页面可以发起握手（父页面可能在播放器加载完成前就已发送过握手消息）
+    bridge.post({ type: 'PLAYER_HANDSHAKE_REQUEST' });
+
+    return () => window.removeEventListener('message', handleMessage);
+  }, [artPlayerRef, enabled, bridge]);
+
+  return bridge;
+}
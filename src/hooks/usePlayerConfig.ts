@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { resolvePlayerConfig, type PlayerConfig } from '../utils/playerConfig';
+
+// 从参数中读取播放器配置（预设需要异步下载），完成前返回 null；无效的配置项在控制台给出警告
+// presetBaseUrl 为预设所在的目录，默认为应用的 presets/
+export function usePlayerConfig(params: URLSearchParams, presetBaseUrl?: string): PlayerConfig | null {
+  const [config, setConfig] = useState<PlayerConfig | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    resolvePlayerConfig(params, presetBaseUrl).then(({ config, warnings }) => {
+      warnings.forEach(warning => console.warn('[Config]', warning));
+      if (!cancelled) {
+        setConfig(config);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [params, presetBaseUrl]);
+
+  return config;
+}
@@ -0,0 +1,13 @@
+import { useState } from 'react';
+
+// 按内容（JSON）比较对象和数组参数：内容不变时返回上一次的引用，
+// 父组件每次渲染传入新的对象（如 subtitles={[...]}）时不会触发依赖它的 effect
+export function useStableValue<T>(value: T): T {
+  const key = JSON.stringify(value) ?? '';
+  const [stable, setStable] = useState({ key, value });
+  if (stable.key !== key) {
+    setStable({ key, value });
+    return value;
+  }
+  return stable.value;
+}
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import type { RequestPolicy } from '../utils/requestPolicy';
+import { detectVideoType, sniffVideoType } from '../utils/videoType';
+
+// 获取视频类型：能直接判断时同步返回，否则异步嗅探，检测完成前返回 null
+// policy 为播放时使用的请求策略，嗅探请求同样需要鉴权
+export function useVideoType(url: string, manualType?: string, policy?: RequestPolicy): string | null {
+  const fastType = detectVideoType(url, manualType);
+  const [sniffed, setSniffed] = useState<{ url: string; type: string } | null>(null);
+
+  useEffect(() => {
+    if (fastType || !url) return;
+
+    let cancelled = false;
+    sniffVideoType(url, policy).then((type) => {
+      if (!cancelled) {
+        setSniffed({ url, type });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, fastType, policy]);
+
+  if (fastType) return fastType;
+  return sniffed?.url === url ? sniffed.type : null;
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from 'react';
+import { clearWatchHistory, deleteWatchRecord, listWatchHistory, type WatchRecord } from '../utils/watchHistory';
+
+// 读取观看记录，并提供删除和清空操作
+export function useWatchHistory() {
+  const [records, setRecords] = useState<WatchRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    listWatchHistory().then((list) => {
+      if (!cancelled) {
+        setRecords(list);
+        setLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteWatchRecord(id);
+      setRecords(list => list.filter(record => record.id !== id));
+    } catch (e) {
+      console.warn('[History] Failed to delete watch record:', e);
+    }
+  }, []);
+
+  const clear = useCallback(async () => {
+    try {
+      await clearWatchHistory();
+      setRecords([]);
+    } catch (e) {
+      console.warn('[History] Failed to clear watch history:', e);
+    }
+  }, []);
+
+  return { records, loading, remove, clear };
+}
@@ -0,0 +1,20 @@
+// 库入口（npm run build:lib）：React 组件和 <re-player> 自定义元素
+// 使用元素前调用 defineRePlayerElement()，样式在 re-player.css 中
+
+export { default as M3U8Player } from './components/M3U8Player';
+export type { M3U8PlayerProps, PlayerError, PlayerEvents, PlayerHandle } from './components/M3U8Player';
+export { default as RePlayer } from './components/RePlayer';
+export type { RePlayerProps } from './components/RePlayer';
+export { defineRePlayerElement, ELEMENT_NAME, RePlayerElement } from './element';
+export type { RePlayerEventDetail, RePlayerEventMap } from './element';
+export { DEFAULT_PLAYER_CONFIG, mergePlayerConfig, resolvePlayerConfig } from './utils/playerConfig';
+export type { AnalyticsConfig, CacheConfig, GestureConfig, HlsBufferConfig, PlayerConfig, PlayerConfigPatch, PlayerControls } from './utils/playerConfig';
+export type { AnalyticsBatch, AnalyticsEvent } from './utils/analytics';
+export type { PlayerCommand, PlayerCommandResult, PlayerSource, PlayerState } from './utils/playerBridge';
+export type { PlaylistEntry } from './utils/playlist';
+export type { RequestPolicy, UrlRewriteRule } from './utils/requestPolicy';
+export { getCachePolicy, setCachePolicy } from './utils/serviceWorker';
+export type { CachePolicy, CachePolicyUpdate } from './utils/serviceWorker';
+export type { SkipMarkers } from './utils/skipMarkers';
+export type { SubtitleTrack } from './utils/subtitle';
+export type { SyncMessage, SyncRole } from './utils/sync';
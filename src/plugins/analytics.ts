@@ -0,0 +1,168 @@
+import type Artplayer from 'artplayer';
+import Hls from 'hls.js';
+import {
+  getAnalyticsQueue,
+  isAnalyticsEnabled,
+  stripUrl,
+  type AnalyticsEventData
+} from '../utils/analytics';
+import { createId } from '../utils/id';
+import type { AnalyticsConfig } from '../utils/playerConfig';
+
+// 两次 timeupdate 之间超过该时长（秒）视为拖动，不计入观看时长
+const MAX_WATCH_STEP = 2;
+
+export interface AnalyticsOptions {
+  url: string;
+  type: string;
+  live: boolean;
+  autoplay: boolean;
+}
+
+export interface PlaybackAnalytics {
+  attachHls: (hls: Hls) => void;
+  recordError: (message: string, code?: number) => void;
+}
+
+// 播放质量上报：起播耗时、卡顿次数和时长、码率切换、致命错误、观看时长和是否看完
+// 未配置上报地址或会话未被抽中时返回 null，不监听任何事件
+export function attachAnalytics(art: Artplayer, config: AnalyticsConfig, options: AnalyticsOptions): PlaybackAnalytics | null {
+  if (!isAnalyticsEnabled(config)) return null;
+
+  const queue = getAnalyticsQueue(config);
+  const playbackId = createId();
+  const createdAt = performance.now();
+
+  let playRequestedAt: number | null = null;
+  let started = false;
+  let stalledAt: number | null = null;
+  let rebufferCount = 0;
+  let rebufferDuration = 0;
+  let bitrateSwitches = 0;
+  let watchTime = 0;
+  let unreportedWatchTime = 0;
+  let lastTime: number | null = null;
+  let completed = false;
+  let ended = false;
+
+  const record = (data: AnalyticsEventData) => {
+    queue.push({
+      ...data,
+      playbackId,
+      timestamp: Date.now(),
+      position: Number.isFinite(art.currentTime) ? art.currentTime : 0
+    });
+  };
+
+  const reportWatchTime = () => {
+    if (unreportedWatchTime < 0.5) return;
+    record({ type: 'watch', watchTime: Math.round(unreportedWatchTime * 10) / 10 });
+    unreportedWatchTime = 0;
+  };
+
+  const endRebuffer = () => {
+    if (stalledAt === null) return;
+    const duration = Math.round(performance.now() - stalledAt);
+    stalledAt = null;
+    rebufferCount++;
+    rebufferDuration += duration;
+    record({ type: 'rebuffer', duration });
+  };
+
+  record({ type: 'load', url: stripUrl(options.url), streamType: options.type, live: options.live, autoplay: options.autoplay });
+
+  art.on('video:play', () => {
+    if (playRequestedAt === null) playRequestedAt = performance.now();
+  });
+
+  art.on('video:playing', () => {
+    if (!started) {
+      started = true;
+      const now = performance.now();
+      record({
+        type: 'startup',
+        startupTime: Math.round(now - (playRequestedAt ?? createdAt)),
+        loadTime: Math.round(now - createdAt)
+      });
+    }
+    endRebuffer();
+  });
+
+  // 开始播放后非拖动引起的等待算作卡顿
+  art.on('video:waiting', () => {
+    if (started && !art.video.seeking && stalledAt === null) {
+      stalledAt = performance.now();
+    }
+  });
+  art.on('video:seeking', () => {
+    stalledAt = null;
+    lastTime = null;
+  });
+
+  art.on('video:timeupdate', () => {
+    const time = art.currentTime;
+    if (lastTime !== null && !art.video.paused) {
+      const step = time - lastTime;
+      if (step > 0 && step < MAX_WATCH_STEP) {
+        const played = step / (art.playbackRate || 1);
+        watchTime += played;
+        unreportedWatchTime += played;
+      }
+    }
+    lastTime = time;
+  });
+
+  art.on('video:pause', () => {
+    lastTime = null;
+    reportWatchTime();
+  });
+
+  art.on('video:ended', () => {
+    reportWatchTime();
+    if (!completed) {
+      completed = true;
+      record({ type: 'complete' });
+    }
+  });
+
+  // 定时发送和页面隐藏前补上累计的观看时长
+  const removeFlushListener = queue.onBeforeFlush(reportWatchTime);
+
+  // 播放器销毁（切换视频或离开页面）时上报汇总
+  art.on('destroy', () => {
+    if (ended) return;
+    ended = true;
+    endRebuffer();
+    reportWatchTime();
+    removeFlushListener();
+    record({
+      type: 'end',
+      watchTime: Math.round(watchTime * 10) / 10,
+      rebufferCount,
+      rebufferDuration,
+      bitrateSwitches,
+      completed,
+      duration: Number.isFinite(art.duration) ? art.duration : 0
+    });
+    queue.flush();
+  });
+
+  return {
+    // hls.js 的码率切换（第一次选择清晰度不算切换）
+    attachHls: (hls) => {
+      let previous: number | null = null;
+      hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
+        const level = hls.levels[data.level];
+        if (!level) return;
+        if (previous !== null && previous !== level.bitrate) {
+          bitrateSwitches++;
+          record({ type: 'bitrate', from: previous, to: level.bitrate, height: level.height, auto: hls.autoLevelEnabled });
+        }
+        previous = level.bitrate;
+      });
+    },
+    recordError: (message, code) => {
+      record({ type: 'error', message, code });
+    }
+  };
+}
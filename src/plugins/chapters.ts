@@ -0,0 +1,160 @@
+import type Artplayer from 'artplayer';
+import type { SettingOption } from 'artplayer';
+import Hls from 'hls.js';
+import { findChapterIndex, normalizeChapters, type Chapter } from '../utils/chapters';
+import { escapeHtml } from '../utils/subtitle';
+
+const CHAPTER_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="22" height="22" fill="white">
+  <path d="M3 13h2v-2H3v2zm0 4h2v-2H3v2zm0-8h2V7H3v2zm4 4h14v-2H7v2zm0 4h14v-2H7v2zM7 7v2h14V7H7z"/>
+</svg>`;
+
+export interface ChaptersControl {
+  set: (chapters: Chapter[]) => void;
+  readonly chapters: Chapter[];
+}
+
+function formatTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mm = h > 0 ? String(m).padStart(2, '0') : String(m);
+  return `${h > 0 ? `${h}:` : ''}${mm}:${String(s).padStart(2, '0')}`;
+}
+
+// 章节：在进度条上画分段标记、悬停时提示章节名、在左上角显示当前章节，并在设置面板中提供章节列表
+export function attachChapters(art: Artplayer, title?: string): ChaptersControl {
+  let chapters: Chapter[] = [];
+  let current = -1;
+
+  const { $progress } = art.template;
+  const inner = $progress.querySelector('.art-control-progress-inner') ?? $progress;
+
+  const markers = document.createElement('div');
+  markers.className = 'art-chapter-markers';
+  inner.appendChild(markers);
+
+  // 标题和当前章节，控制栏显示时可见
+  const heading = document.createElement('div');
+  heading.className = 'art-chapter-title';
+  art.layers.add({
+    name: 'chapter-title',
+    html: heading,
+    style: { display: 'none' }
+  });
+
+  const renderMarkers = () => {
+    const duration = art.duration;
+    markers.replaceChildren();
+    if (!Number.isFinite(duration) || duration <= 0) return;
+
+    for (const chapter of chapters) {
+      if (chapter.start <= 0 || chapter.start >= duration) continue;
+      const marker = document.createElement('span');
+      marker.className = 'art-chapter-marker';
+      marker.style.left = `${(chapter.start / duration) * 100}%`;
+      markers.appendChild(marker);
+    }
+  };
+
+  const renderSetting = () => {
+    if (art.setting.find('chapters')) {
+      art.setting.remove('chapters');
+    }
+    if (chapters.length === 0) return;
+
+    art.setting.add({
+      name: 'chapters',
+      html: 'Chapters',
+      icon: CHAPTER_ICON,
+      tooltip: current >= 0 ? escapeHtml(chapters[current].title) : '',
+      width: 300,
+      selector: chapters.map((chapter, index) => ({
+        html: `${formatTime(chapter.start)}&nbsp;&nbsp;${escapeHtml(chapter.title)}`,
+        index,
+        default: index === current
+      })),
+      onSelect(item: SettingOption) {
+        art.currentTime = chapters[item.index].start;
+        if (art.video.paused) art.play();
+        return escapeHtml(chapters[item.index].title);
+      }
+    });
+  };
+
+  const update = () => {
+    const index = findChapterIndex(chapters, art.currentTime, art.duration);
+    if (index === current) return;
+    current = index;
+
+    const name = index >= 0 ? chapters[index].title : '';
+    heading.textContent = [title, name].filter(Boolean).join(' · ');
+    art.layers['chapter-title'].style.display = heading.textContent ? 'block' : 'none';
+
+    const setting = art.setting.find('chapters');
+    if (setting) setting.tooltip = escapeHtml(name);
+  };
+
+  // 悬停进度条时在时间提示后加上章节名（Artplayer 先更新提示，这里再追加）
+  const tip = $progress.querySelector<HTMLElement>('.art-progress-tip');
+  $progress.addEventListener('mousemove', (event) => {
+    if (!tip || chapters.length === 0) return;
+    const duration = art.duration;
+    if (!Number.isFinite(duration) || duration <= 0) return;
+
+    const rect = $progress.getBoundingClientRect();
+    const time = ((event.clientX - rect.left) / rect.width) * duration;
+    const index = findChapterIndex(chapters, time, duration);
+    if (index >= 0) {
+      tip.textContent = `${tip.textContent} · ${chapters[index].title}`;
+    }
+  });
+
+  art.on('video:loadedmetadata', renderMarkers);
+  art.on('video:durationchange', renderMarkers);
+  art.on('video:timeupdate', update);
+  art.on('seek', update);
+
+  return {
+    set(list) {
+      chapters = normalizeChapters(list);
+      current = -2; // 强制刷新
+      renderMarkers();
+      update();
+      renderSetting();
+    },
+    get chapters() {
+      return chapters;
+    }
+  };
+}
+
+// 读取 HLS playlist 中的章节（EXT-X-DATERANGE，CLASS 包含 chapter 或带有 X-CHAPTER 属性，
+// 标题取 X-TITLE / X-CHAPTER），需要 EXT-X-PROGRAM-DATE-TIME 才能换算到播放时间
+export function attachHlsChapters(hls: Hls, onChapters: (chapters: Chapter[]) => void): void {
+  let lastKey = '';
+
+  hls.on(Hls.Events.LEVEL_LOADED, (_event, data) => {
+    const chapters: Chapter[] = [];
+    for (const dateRange of Object.values(data.details.dateRanges)) {
+      if (!dateRange?.isValid) continue;
+      const { attr } = dateRange;
+      const isChapter = /chapter/i.test(dateRange.class) || attr['X-CHAPTER'] !== undefined;
+      const start = dateRange.startTime;
+      if (!isChapter || !Number.isFinite(start)) continue;
+
+      const duration = dateRange.duration;
+      chapters.push({
+        start: Math.max(0, start),
+        ...(duration ? { end: start + duration } : {}),
+        title: String(attr['X-TITLE'] || attr['X-CHAPTER'] || dateRange.id)
+      });
+    }
+
+    // 直播时 playlist 不断刷新，章节没有变化时不重复更新
+    const key = JSON.stringify(chapters);
+    if (chapters.length === 0 || key === lastKey) return;
+    lastKey = key;
+    onChapters(chapters);
+  });
+}
@@ -0,0 +1,48 @@
+import type Artplayer from 'artplayer';
+
+export interface ErrorOverlay {
+  show: (reason: string, detail?: string) => void;
+  hide: () => void;
+}
+
+// 播放失败时覆盖在画面上的错误提示和重试按钮
+export function attachErrorOverlay(art: Artplayer, onRetry: () => void): ErrorOverlay {
+  const element = document.createElement('div');
+  element.className = 'art-error-overlay';
+
+  const message = document.createElement('div');
+  message.className = 'art-error-overlay-message';
+
+  const detail = document.createElement('div');
+  detail.className = 'art-error-overlay-detail';
+
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'art-error-overlay-retry';
+  button.textContent = 'Retry';
+  button.addEventListener('click', (event) => {
+    event.stopPropagation();
+    onRetry();
+  });
+
+  element.append(message, detail, button);
+
+  art.layers.add({
+    name: 'error-overlay',
+    html: element,
+    style: { display: 'none' }
+  });
+
+  return {
+    show(reason, extra) {
+      // 使用 textContent，错误信息中可能包含来自网络的内容
+      message.textContent = reason;
+      detail.textContent = extra ?? '';
+      art.layers['error-overlay'].style.display = 'block';
+      art.loading.show = false;
+    },
+    hide() {
+      art.layers['error-overlay'].style.display = 'none';
+    }
+  };
+}
@@ -0,0 +1,309 @@
+import type Artplayer from 'artplayer';
+import type { GestureConfig } from '../utils/playerConfig';
+
+// 两次点击间隔小于该时长（毫秒）视为双击，连续点击时每次都继续快进/快退
+const DOUBLE_TAP_TIME = 300;
+// 双击快进/快退的区域：左右两侧各占画面宽度的比例，中间保留 Artplayer 的双击暂停
+const SIDE_RATIO = 0.4;
+// 移动超过该距离（像素）后开始滑动手势，并取消长按
+const MOVE_THRESHOLD = 10;
+// 按住超过该时长（毫秒）开始倍速播放
+const LONG_PRESS_TIME = 500;
+// 左右滑过整个画面宽度对应的秒数（短视频按时长）
+const SCRUB_RANGE = 90;
+// 亮度的调节范围（CSS brightness）
+const MIN_BRIGHTNESS = 0.2;
+const MAX_BRIGHTNESS = 1.5;
+// 提示在手势结束后保留的时长（毫秒）
+const HINT_HIDE_DELAY = 600;
+
+type GestureMode = 'scrub' | 'volume' | 'brightness' | 'longPress';
+
+export interface GestureOptions {
+  isLive: () => boolean; // 直播时不能快进/快退、拖动进度和倍速播放
+  synced?: boolean; // 已加入一起看的房间：倍速会同步给所有成员，不启用长按倍速
+}
+
+function formatTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mm = h > 0 ? String(m).padStart(2, '0') : String(m);
+  return `${h > 0 ? `${h}:` : ''}${mm}:${String(s).padStart(2, '0')}`;
+}
+
+// 只在主要输入为触屏的设备上启用（手机、平板），带鼠标或触控板的电脑保持默认行为
+function isTouchDevice(): boolean {
+  return window.matchMedia('(pointer: coarse)').matches;
+}
+
+// 触屏手势：双击左/右侧快退/快进、左半边上下滑动调节亮度、右半边调节音量、左右滑动拖动进度、长按倍速播放
+// 只处理画面上的触摸（控制栏、设置面板等不受影响），鼠标和触控笔的操作不受影响
+export function attachGestures(art: Artplayer, config: GestureConfig, options: GestureOptions): void {
+  if (!config.enabled) return;
+
+  const { $player, $video } = art.template;
+
+  // 竖向滑动时阻止页面滚动；关闭音量和亮度手势后保留竖向滚动页面
+  $video.style.touchAction = config.volume || config.brightness ? 'none' : config.scrub ? 'pan-y' : 'manipulation';
+  $player.classList.add('art-gestures-enabled');
+
+  // 双击时左右两侧的波纹和快进/快退秒数
+  const ripple = document.createElement('div');
+  ripple.className = 'art-gesture-ripple';
+  const rippleText = document.createElement('div');
+  rippleText.className = 'art-gesture-ripple-text';
+  ripple.appendChild(rippleText);
+
+  // 滑动和长按时画面中央的提示
+  const hint = document.createElement('div');
+  hint.className = 'art-gesture-hint';
+  const hintText = document.createElement('div');
+  hintText.className = 'art-gesture-hint-text';
+  const hintBar = document.createElement('div');
+  hintBar.className = 'art-gesture-hint-bar';
+  const hintBarValue = document.createElement('div');
+  hintBarValue.className = 'art-gesture-hint-bar-value';
+  hintBar.appendChild(hintBarValue);
+  hint.append(hintText, hintBar);
+
+  const container = document.createElement('div');
+  container.className = 'art-gestures';
+  container.append(ripple, hint);
+
+  art.layers.add({
+    name: 'gestures',
+    html: container,
+    style: { pointerEvents: 'none' }
+  });
+
+  let brightness = 1;
+
+  let pointerId: number | null = null;
+  let startX = 0;
+  let startY = 0;
+  let startValue = 0;
+  let mode: GestureMode | null = null;
+  let longPressTimer: number | null = null;
+  let restoreRate = 1;
+
+  let lastTapAt = 0;
+  let lastTapSide: 'left' | 'right' | null = null;
+  let seekSide: 'left' | 'right' | null = null;
+  let seekTotal = 0;
+  // 快进/快退的双击不再交给 Artplayer（否则会切换播放/暂停）
+  let suppressClick = false;
+  let rippleTimer: number | null = null;
+  let hintTimer: number | null = null;
+
+  const canSeek = () => !options.isLive() && Number.isFinite(art.duration) && art.duration > 0;
+
+  const showHint = (text: string, ratio?: number) => {
+    if (hintTimer !== null) {
+      clearTimeout(hintTimer);
+      hintTimer = null;
+    }
+    hintText.textContent = text;
+    hintBar.style.display = ratio === undefined ? 'none' : 'block';
+    if (ratio !== undefined) hintBarValue.style.width = `${Math.round(ratio * 100)}%`;
+    hint.classList.add('is-visible');
+  };
+
+  const hideHint = () => {
+    if (hintTimer !== null) clearTimeout(hintTimer);
+    hintTimer = window.setTimeout(() => {
+      hintTimer = null;
+      hint.classList.remove('is-visible');
+    }, HINT_HIDE_DELAY);
+  };
+
+  const showRipple = (side: 'left' | 'right', text: string) => {
+    if (rippleTimer !== null) clearTimeout(rippleTimer);
+    ripple.classList.remove('is-left', 'is-right', 'is-visible');
+    // 重新触发动画
+    void ripple.offsetWidth;
+    ripple.classList.add(side === 'left' ? 'is-left' : 'is-right', 'is-visible');
+    rippleText.textContent = text;
+    rippleTimer = window.setTimeout(() => {
+      rippleTimer = null;
+      ripple.classList.remove('is-visible');
+      seekSide = null;
+      seekTotal = 0;
+    }, HINT_HIDE_DELAY);
+  };
+
+  const setBrightness = (value: number) => {
+    brightness = Math.min(MAX_BRIGHTNESS, Math.max(MIN_BRIGHTNESS, value));
+    $video.style.filter = brightness === 1 ? '' : `brightness(${brightness})`;
+  };
+
+  const cancelLongPress = () => {
+    if (longPressTimer !== null) {
+      clearTimeout(longPressTimer);
+      longPressTimer = null;
+    }
+  };
+
+  const getScrubTarget = (event: PointerEvent) => {
+    const range = Math.min(art.duration, SCRUB_RANGE);
+    const offset = ((event.clientX - startX) / $player.clientWidth) * range;
+    return Math.min(art.duration, Math.max(0, startValue + offset));
+  };
+
+  const updateGesture = (event: PointerEvent) => {
+    const height = $player.clientHeight || 1;
+    // 向上滑动增大
+    const delta = (startY - event.clientY) / height;
+
+    if (mode === 'scrub') {
+      const target = getScrubTarget(event);
+      const offset = Math.round(target - art.currentTime);
+      showHint(`${formatTime(target)} / ${formatTime(art.duration)} (${offset >= 0 ? '+' : '-'}${Math.abs(offset)}s)`, target / art.duration);
+    } else if (mode === 'volume') {
+      const volume = Math.min(1, Math.max(0, startValue + delta));
+      // 直接修改 video，避免 Artplayer 每次都显示音量提示
+      art.video.volume = volume;
+      if (volume > 0 && art.muted) art.muted = false;
+      // iOS 不允许网页修改音量
+      if (Math.abs(art.video.volume - volume) > 0.01) {
+        showHint('Use the volume buttons');
+      } else {
+        showHint(`Volume ${Math.round(volume * 100)}%`, volume);
+      }
+    } else if (mode === 'brightness') {
+      setBrightness(startValue + delta * (MAX_BRIGHTNESS - MIN_BRIGHTNESS));
+      showHint(`Brightness ${Math.round(brightness * 100)}%`, (brightness - MIN_BRIGHTNESS) / (MAX_BRIGHTNESS - MIN_BRIGHTNESS));
+    }
+  };
+
+  // 判断滑动方向：横向拖动进度，竖向按起点在左半边或右半边调节亮度或音量
+  const startSwipe = (event: PointerEvent) => {
+    const dx = event.clientX - startX;
+    const dy = event.clientY - startY;
+    const rect = $player.getBoundingClientRect();
+    const left = startX - rect.left < rect.width / 2;
+
+    if (Math.abs(dx) > Math.abs(dy)) {
+      if (!config.scrub || !canSeek()) return null;
+      startValue = art.currentTime;
+      return 'scrub';
+    }
+    if (left && config.brightness) {
+      startValue = brightness;
+      return 'brightness';
+    }
+    if (!left && config.volume) {
+      startValue = art.muted ? 0 : art.video.volume;
+      return 'volume';
+    }
+    return null;
+  };
+
+  // 双击左/右侧：快退/快进，连续点击累加
+  const handleTap = (event: PointerEvent) => {
+    const now = Date.now();
+    const rect = $player.getBoundingClientRect();
+    const ratio = (event.clientX - rect.left) / rect.width;
+    const side = ratio < SIDE_RATIO ? 'left' : ratio > 1 - SIDE_RATIO ? 'right' : null;
+    const isDoubleTap = now - lastTapAt < DOUBLE_TAP_TIME && side !== null && side === lastTapSide;
+    lastTapAt = now;
+    lastTapSide = side;
+
+    if (!isDoubleTap || !config.doubleTap || !canSeek() || !side) return;
+    suppressClick = true;
+    if (side !== seekSide) seekTotal = 0;
+    seekSide = side;
+    const step = side === 'left' ? -config.seekStep : config.seekStep;
+    seekTotal += step;
+    art.seek = Math.min(art.duration, Math.max(0, art.currentTime + step));
+    showRipple(side, `${seekTotal > 0 ? '+' : '-'}${Math.abs(seekTotal)}s`);
+  };
+
+  const endGesture = () => {
+    cancelLongPress();
+    if (mode === 'longPress') {
+      art.video.playbackRate = restoreRate;
+    } else if (mode === 'volume' && art.video.volume > 0) {
+      art.storage.set('volume', art.video.volume);
+    }
+    if (mode !== null) {
+      hideHint();
+      // 长按或滑动结束后的 click 不再切换播放/暂停
+      suppressClick = true;
+    }
+    mode = null;
+    pointerId = null;
+  };
+
+  $video.addEventListener('pointerdown', (event) => {
+    if (event.pointerType !== 'touch' || !event.isPrimary || art.isLock || !isTouchDevice()) return;
+    pointerId = event.pointerId;
+    startX = event.clientX;
+    startY = event.clientY;
+    mode = null;
+    suppressClick = false;
+
+    if (config.longPress && !options.synced && art.playing && !options.isLive()) {
+      longPressTimer = window.setTimeout(() => {
+        longPressTimer = null;
+        mode = 'longPress';
+        restoreRate = art.video.playbackRate;
+        art.video.playbackRate = config.longPressRate;
+        showHint(`${config.longPressRate}× ▶▶`);
+      }, LONG_PRESS_TIME);
+    }
+  });
+
+  $video.addEventListener('pointermove', (event) => {
+    if (event.pointerId !== pointerId) return;
+    if (mode === null) {
+      if (Math.hypot(event.clientX - startX, event.clientY - startY) < MOVE_THRESHOLD) return;
+      cancelLongPress();
+      mode = startSwipe(event);
+      if (mode === null) {
+        // 不处理的方向（如关闭了该手势）交给浏览器
+        pointerId = null;
+        return;
+      }
+      $video.setPointerCapture(event.pointerId);
+    }
+    if (mode !== 'longPress') updateGesture(event);
+  });
+
+  $video.addEventListener('pointerup', (event) => {
+    if (event.pointerId !== pointerId) return;
+    if (mode === 'scrub') {
+      art.seek = getScrubTarget(event);
+    } else if (mode === null) {
+      handleTap(event);
+    }
+    endGesture();
+  });
+
+  $video.addEventListener('pointercancel', (event) => {
+    if (event.pointerId === pointerId) endGesture();
+  });
+
+  // 长按时不弹出系统菜单和 Artplayer 的右键菜单
+  $video.addEventListener('contextmenu', (event) => {
+    if (pointerId !== null && config.longPress) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  });
+
+  // Artplayer 在 video 上监听 click，捕获阶段拦截已经作为手势处理的点击
+  $player.addEventListener('click', (event) => {
+    if (suppressClick && event.target === $video) {
+      suppressClick = false;
+      event.stopPropagation();
+    }
+  }, true);
+
+  art.on('destroy', () => {
+    cancelLongPress();
+    if (rippleTimer !== null) clearTimeout(rippleTimer);
+    if (hintTimer !== null) clearTimeout(hintTimer);
+  });
+}
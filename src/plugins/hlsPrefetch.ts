@@ -0,0 +1,54 @@
+import type Artplayer from 'artplayer';
+import Hls from 'hls.js';
+import { sendPrefetchHint } from '../utils/serviceWorker';
+
+// 播放中定时发送提示的间隔
+const HINT_INTERVAL = 2000;
+
+// 当前位置所在缓冲区间的结束位置
+function getBufferedEnd(video: HTMLVideoElement): number {
+  const { buffered, currentTime } = video;
+  for (let i = 0; i < buffered.length; i++) {
+    if (buffered.start(i) <= currentTime + 0.5 && buffered.end(i) >= currentTime) {
+      return buffered.end(i);
+    }
+  }
+  return currentTime;
+}
+
+// 向 Service Worker 发送播放位置、带宽和正在使用的 playlist，用于预加载后续分片
+export function attachHlsPrefetch(art: Artplayer, hls: Hls): void {
+  let lastHint = 0;
+
+  const sendHint = (closed = false) => {
+    lastHint = Date.now();
+    const video = art.video;
+    const playlists = [
+      hls.levels[hls.currentLevel]?.uri,
+      hls.audioTracks[hls.audioTrack]?.url
+    ].filter((url): url is string => !!url);
+
+    sendPrefetchHint({
+      position: video.currentTime,
+      bufferedEnd: getBufferedEnd(video),
+      bandwidth: hls.bandwidthEstimate,
+      playing: !closed && !video.paused,
+      playlists,
+      closed
+    });
+  };
+
+  art.on('play', () => sendHint());
+  art.on('pause', () => sendHint());
+  art.on('seek', () => sendHint());
+  art.on('video:timeupdate', () => {
+    if (Date.now() - lastHint >= HINT_INTERVAL) {
+      sendHint();
+    }
+  });
+
+  // 切换清晰度或音轨后 playlist 会变化
+  hls.on(Hls.Events.LEVEL_SWITCHED, () => sendHint());
+  hls.on(Hls.Events.AUDIO_TRACK_SWITCHED, () => sendHint());
+  hls.on(Hls.Events.DESTROYING, () => sendHint(true));
+}
@@ -0,0 +1,107 @@
+import type Artplayer from 'artplayer';
+import type { SettingOption } from 'artplayer';
+import Hls from 'hls.js';
+import type { Level } from 'hls.js';
+
+// 清晰度偏好的存储 key（使用 Artplayer 自带的 storage）
+const QUALITY_KEY = 'hlsQuality';
+
+const QUALITY_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="22" height="22" fill="white">
+  <path d="M19 3H5c-1.11 0-2 .9-2 2v14c0 1.1.89 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm-8 12H9.5v-2h-2v2H6V9h1.5v2.5h2V9H11v6zm7-1c0 .55-.45 1-1 1h-.75v1.5h-1.5V15H14c-.55 0-1-.45-1-1v-4c0-.55.45-1 1-1h3c.55 0 1 .45 1 1v4zm-3.5-.5h2v-3h-2v3z"/>
+</svg>`;
+
+// 清晰度名称，同一分辨率有多个码率时附带码率区分
+function getLevelLabel(level: Level, levels: Level[]): string {
+  const mbps = `${(level.bitrate / 1000000).toFixed(1)} Mbps`;
+  if (!level.height) {
+    return `${Math.round(level.bitrate / 1000)} kbps`;
+  }
+  const sameHeight = levels.filter(item => item.height === level.height).length > 1;
+  return sameHeight ? `${level.height}p (${mbps})` : `${level.height}p`;
+}
+
+// 根据偏好（720p / 1080 / max / min / auto）查找对应的 level，-1 表示自动
+export function findLevelIndex(levels: Level[], preference?: string | null): number {
+  if (!preference || levels.length === 0) return -1;
+
+  const value = preference.trim().toLowerCase();
+  const byBitrate = levels
+    .map((level, index) => ({ level, index }))
+    .sort((a, b) => a.level.bitrate - b.level.bitrate);
+
+  if (value === 'max') return byBitrate[byBitrate.length - 1].index;
+  if (value === 'min') return byBitrate[0].index;
+
+  const height = parseInt(value, 10);
+  if (!Number.isFinite(height)) return -1;
+
+  // 取不超过目标分辨率的最高码率，都超过时取最低码率
+  const candidates = byBitrate.filter(({ level }) => level.height && level.height <= height);
+  return candidates.length > 0 ? candidates[candidates.length - 1].index : byBitrate[0].index;
+}
+
+// 保存偏好时记录分辨率而不是 level 下标，换一个视频也能匹配
+function findPreference(level: Level, levels: Level[]): string {
+  if (level.height) return `${level.height}p`;
+  const maxBitrate = Math.max(...levels.map(item => item.bitrate));
+  return level.bitrate === maxBitrate ? 'max' : 'min';
+}
+
+// 为 hls.js 实例添加清晰度切换设置，preferred 为 URL 参数中的初始清晰度
+export function attachHlsQuality(art: Artplayer, hls: Hls, preferred?: string): void {
+  const getAutoLabel = () => {
+    const level = hls.levels[hls.currentLevel];
+    return level ? `Auto (${getLevelLabel(level, hls.levels)})` : 'Auto';
+  };
+
+  hls.on(Hls.Events.MANIFEST_PARSED, () => {
+    const levels = hls.levels;
+    if (levels.length <= 1) return;
+
+    // URL 参数优先，其次是上次的选择
+    const preference = preferred ?? (art.storage.get(QUALITY_KEY) as string | undefined);
+    const startIndex = findLevelIndex(levels, preference);
+    if (startIndex !== -1) {
+      hls.currentLevel = startIndex;
+    }
+
+    const selector = levels
+      .map((level, index) => ({
+        html: getLevelLabel(level, levels),
+        default: index === startIndex,
+        levelIndex: index,
+        height: level.height,
+        bitrate: level.bitrate
+      }))
+      .sort((a, b) => b.height - a.height || b.bitrate - a.bitrate);
+
+    art.setting.update({
+      name: 'quality',
+      html: 'Quality',
+      icon: QUALITY_ICON,
+      tooltip: startIndex === -1 ? 'Auto' : getLevelLabel(levels[startIndex], levels),
+      width: 200,
+      selector: [
+        { name: 'quality-auto', html: 'Auto', default: startIndex === -1, levelIndex: -1 },
+        ...selector
+      ],
+      onSelect(item: SettingOption) {
+        // nextLevel 会在当前分片播放完后切换，避免清空缓冲造成卡顿
+        hls.nextLevel = item.levelIndex;
+        const preference = item.levelIndex === -1 ? 'auto' : findPreference(levels[item.levelIndex], levels);
+        art.storage.set(QUALITY_KEY, preference);
+        return item.levelIndex === -1 ? getAutoLabel() : item.html;
+      }
+    });
+  });
+
+  // 自动模式下在设置中显示实际播放的清晰度
+  hls.on(Hls.Events.LEVEL_SWITCHED, () => {
+    if (!hls.autoLevelEnabled || hls.levels.length <= 1) return;
+
+    const setting = art.setting.find('quality');
+    const auto = art.setting.find('quality-auto');
+    if (setting) setting.tooltip = getAutoLabel();
+    if (auto) auto.html = getAutoLabel();
+  });
+}
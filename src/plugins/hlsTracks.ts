@@ -0,0 +1,128 @@
+import type Artplayer from 'artplayer';
+import type { SettingOption } from 'artplayer';
+import Hls from 'hls.js';
+import type { MediaPlaylist } from 'hls.js';
+
+// 语言偏好的存储 key（使用 Artplayer 自带的 storage），跨视频生效
+const AUDIO_LANG_KEY = 'audioLang';
+const SUBTITLE_LANG_KEY = 'subtitleLang';
+// 关闭内嵌字幕时保存的偏好值
+const SUBTITLE_OFF = 'off';
+
+const AUDIO_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="22" height="22" fill="white">
+  <path d="M12 3v9.28c-.47-.17-.97-.28-1.5-.28C8.01 12 6 14.01 6 16.5S8.01 21 10.5 21c2.31 0 4.2-1.75 4.45-4H15V6h4V3h-7z"/>
+</svg>`;
+
+const CAPTIONS_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="22" height="22" fill="white">
+  <path d="M19 4H5c-1.11 0-2 .9-2 2v12c0 1.1.89 2 2 2h14c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2zm-8 7H9.5v-.5h-2v3h2V13H11v1c0 .55-.45 1-1 1H7c-.55 0-1-.45-1-1v-4c0-.55.45-1 1-1h3c.55 0 1 .45 1 1v1zm7 0h-1.5v-.5h-2v3h2V13H18v1c0 .55-.45 1-1 1h-3c-.55 0-1-.45-1-1v-4c0-.55.45-1 1-1h3c.55 0 1 .45 1 1v1z"/>
+</svg>`;
+
+export interface HlsTrackOptions {
+  audioLang?: string; // URL 参数中的初始音轨语言
+  subLang?: string; // URL 参数中的初始字幕语言，off 表示关闭
+}
+
+function getTrackLabel(track: MediaPlaylist, index: number): string {
+  if (track.name && track.lang && !track.name.toLowerCase().includes(track.lang.toLowerCase())) {
+    return `${track.name} (${track.lang})`;
+  }
+  return track.name || track.lang || `Track ${index + 1}`;
+}
+
+// 按语言查找轨道：先精确匹配，再匹配主语言（en-US 与 en）
+export function findTrackByLang(tracks: MediaPlaylist[], lang?: string | null): number {
+  if (!lang) return -1;
+  const target = lang.toLowerCase();
+  const primary = target.split('-')[0];
+
+  const exact = tracks.findIndex(track => track.lang?.toLowerCase() === target);
+  if (exact !== -1) return exact;
+  return tracks.findIndex(track => track.lang?.toLowerCase().split('-')[0] === primary);
+}
+
+// 为 hls.js 实例添加音轨和内嵌字幕切换设置
+export function attachHlsTracks(art: Artplayer, hls: Hls, options: HlsTrackOptions = {}): void {
+  let audioInitialized = false;
+  let subtitleInitialized = false;
+
+  hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, (_event, { audioTracks }) => {
+    if (audioTracks.length <= 1) return;
+
+    // 只在第一次拿到轨道列表时应用偏好，之后保留用户在本视频中的选择
+    if (!audioInitialized) {
+      audioInitialized = true;
+      const preference = options.audioLang ?? (art.storage.get(AUDIO_LANG_KEY) as string | undefined);
+      const index = findTrackByLang(audioTracks, preference);
+      if (index !== -1 && index !== hls.audioTrack) {
+        hls.audioTrack = index;
+      }
+    }
+
+    const current = hls.audioTrack;
+    art.setting.update({
+      name: 'audio-track',
+      html: 'Audio',
+      icon: AUDIO_ICON,
+      tooltip: audioTracks[current] ? getTrackLabel(audioTracks[current], current) : '',
+      width: 220,
+      selector: audioTracks.map((track, index) => ({
+        html: getTrackLabel(track, index),
+        default: index === current,
+        trackIndex: index
+      })),
+      onSelect(item: SettingOption) {
+        hls.audioTrack = item.trackIndex;
+        const lang = audioTracks[item.trackIndex]?.lang;
+        if (lang) {
+          art.storage.set(AUDIO_LANG_KEY, lang);
+        }
+        return item.html;
+      }
+    });
+  });
+
+  hls.on(Hls.Events.SUBTITLE_TRACKS_UPDATED, (_event, { subtitleTracks }) => {
+    if (subtitleTracks.length === 0) return;
+
+    if (!subtitleInitialized) {
+      subtitleInitialized = true;
+      const preference = options.subLang ?? (art.storage.get(SUBTITLE_LANG_KEY) as string | undefined);
+      if (preference?.toLowerCase() === SUBTITLE_OFF) {
+        hls.subtitleTrack = -1;
+      } else {
+        const index = findTrackByLang(subtitleTracks, preference);
+        if (index !== -1) {
+          hls.subtitleTrack = index;
+          hls.subtitleDisplay = true;
+        }
+      }
+    }
+
+    const current = hls.subtitleTrack;
+    art.setting.update({
+      name: 'subtitle-track',
+      html: 'Captions',
+      icon: CAPTIONS_ICON,
+      tooltip: subtitleTracks[current] ? getTrackLabel(subtitleTracks[current], current) : 'Off',
+      width: 220,
+      selector: [
+        { html: 'Off', default: current === -1, trackIndex: -1 },
+        ...subtitleTracks.map((track, index) => ({
+          html: getTrackLabel(track, index),
+          default: index === current,
+          trackIndex: index
+        }))
+      ],
+      onSelect(item: SettingOption) {
+        hls.subtitleTrack = item.trackIndex;
+        hls.subtitleDisplay = item.trackIndex !== -1;
+
+        const lang = item.trackIndex === -1 ? SUBTITLE_OFF : subtitleTracks[item.trackIndex]?.lang;
+        if (lang) {
+          art.storage.set(SUBTITLE_LANG_KEY, lang);
+        }
+        return item.html;
+      }
+    });
+  });
+}
@@ -0,0 +1,199 @@
+import type Artplayer from 'artplayer';
+import type { SettingOption } from 'artplayer';
+import Hls from 'hls.js';
+
+// 落后直播点超过该时长（秒）时徽标变为“回到直播”
+const BEHIND_THRESHOLD = 5;
+// 可拖动的时移窗口短于该时长（秒）时不显示进度条
+const MIN_DVR_WINDOW = 30;
+// 目标延迟选项（秒），0 表示使用 playlist 建议的延迟
+const LATENCY_OPTIONS = [0, 2, 4, 8, 15, 30];
+
+export interface LiveModeOptions {
+  getLiveEdge?: () => number | null; // 直播同步位置，默认使用可拖动范围的末尾
+}
+
+export interface HlsLiveOptions {
+  latency?: number; // 初始目标延迟（秒）
+  onLive?: () => void; // 检测到直播流时调用
+}
+
+function getSeekableRange(video: HTMLVideoElement): { start: number; end: number } | null {
+  const { seekable } = video;
+  if (seekable.length === 0) return null;
+  return { start: seekable.start(0), end: seekable.end(seekable.length - 1) };
+}
+
+function formatOffset(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `-${m}:${String(s).padStart(2, '0')}`;
+}
+
+// 已启用直播模式的播放器和当前的直播同步位置（hls.js 检测到直播后会替换为 liveSyncPosition）
+const liveEdgeGetters = new WeakMap<Artplayer, LiveModeOptions['getLiveEdge']>();
+
+// 切换为直播模式：隐藏点播进度条和时长，显示 LIVE 徽标（落后时点击回到直播点）和时移进度条
+// 可以重复调用（如 live=true 的 HLS 直播在检测到直播时再次调用），已启用时只更新直播同步位置
+export function enableLiveMode(art: Artplayer, options: LiveModeOptions = {}): void {
+  if (liveEdgeGetters.has(art)) {
+    if (options.getLiveEdge) liveEdgeGetters.set(art, options.getLiveEdge);
+    return;
+  }
+  liveEdgeGetters.set(art, options.getLiveEdge);
+
+  const video = art.video;
+  const getLiveEdge = () => liveEdgeGetters.get(art)?.() ?? getSeekableRange(video)?.end ?? null;
+
+  art.template.$player.classList.add('art-live-mode');
+
+  const jumpToLive = () => {
+    const edge = getLiveEdge();
+    if (edge === null) return;
+    // 直播的 duration 为 Infinity，直接设置 video 的时间
+    video.currentTime = edge;
+    if (video.paused) art.play();
+  };
+
+  const badge = document.createElement('div');
+  badge.className = 'art-live-badge';
+  const dot = document.createElement('span');
+  dot.className = 'art-live-badge-dot';
+  const label = document.createElement('span');
+  label.textContent = 'LIVE';
+  badge.append(dot, label);
+
+  art.controls.add({
+    name: 'live-badge',
+    position: 'left',
+    index: 40,
+    html: badge,
+    tooltip: 'Jump to live',
+    click: jumpToLive
+  });
+
+  // 时移进度条：范围为 playlist 当前可拖动的窗口
+  const dvr = document.createElement('div');
+  dvr.className = 'art-live-dvr';
+  const played = document.createElement('div');
+  played.className = 'art-live-dvr-played';
+  const hint = document.createElement('div');
+  hint.className = 'art-live-dvr-hint';
+  dvr.append(played, hint);
+
+  art.controls.add({
+    name: 'live-dvr',
+    position: 'top',
+    index: 10,
+    html: dvr,
+    style: { display: 'none' }
+  });
+
+  const getPosition = (event: PointerEvent) => {
+    const range = getSeekableRange(video);
+    if (!range) return null;
+    const rect = dvr.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    return { time: range.start + ratio * (range.end - range.start), ratio, end: range.end };
+  };
+
+  let dragging = false;
+  dvr.addEventListener('pointerdown', (event) => {
+    dragging = true;
+    dvr.setPointerCapture(event.pointerId);
+    const position = getPosition(event);
+    if (position) video.currentTime = position.time;
+  });
+  dvr.addEventListener('pointermove', (event) => {
+    const position = getPosition(event);
+    if (!position) return;
+    hint.textContent = formatOffset(position.end - position.time);
+    hint.style.left = `${position.ratio * 100}%`;
+    if (dragging) video.currentTime = position.time;
+  });
+  dvr.addEventListener('pointerup', () => {
+    dragging = false;
+  });
+
+  const update = () => {
+    const edge = getLiveEdge();
+    const behind = edge === null ? 0 : edge - video.currentTime;
+    const atEdge = behind < BEHIND_THRESHOLD;
+    badge.classList.toggle('is-behind', !atEdge);
+    label.textContent = atEdge ? 'LIVE' : `GO LIVE ${formatOffset(behind)}`;
+
+    const range = getSeekableRange(video);
+    const dvrWindow = range ? range.end - range.start : 0;
+    const control = art.controls['live-dvr'];
+    if (!range || dvrWindow < MIN_DVR_WINDOW) {
+      control.style.display = 'none';
+      return;
+    }
+    control.style.display = '';
+    const ratio = (video.currentTime - range.start) / dvrWindow;
+    played.style.width = `${Math.min(1, Math.max(0, ratio)) * 100}%`;
+  };
+
+  art.on('video:timeupdate', update);
+  art.on('video:progress', update);
+  art.on('video:pause', update);
+  update();
+}
+
+// hls.js 直播检测（playlist 没有 EXT-X-ENDLIST）、LL-HLS 开关和目标延迟设置
+export function attachHlsLive(art: Artplayer, hls: Hls, options: HlsLiveOptions = {}): void {
+  let detected = false;
+
+  hls.on(Hls.Events.LEVEL_LOADED, (_event, data) => {
+    if (detected || !data.details.live) return;
+    detected = true;
+
+    enableLiveMode(art, { getLiveEdge: () => hls.liveSyncPosition });
+    options.onLive?.();
+
+    const { details } = data;
+    let selected = options.latency ?? 0;
+
+    // Auto 使用 playlist 建议的延迟（HOLD-BACK / PART-HOLD-BACK，没有时为 3 个分片时长）
+    const getSuggestedLatency = () =>
+      (hls.lowLatencyMode && details.partHoldBack) || details.holdBack || details.targetduration * 3;
+
+    // 目标延迟改变后跳到新的同步位置（延迟变大时 hls.js 不会主动后退）
+    const applyLatency = () => {
+      hls.targetLatency = selected || getSuggestedLatency();
+      const position = hls.liveSyncPosition;
+      if (position !== null) art.video.currentTime = position;
+    };
+
+    art.setting.add({
+      name: 'live-latency',
+      html: 'Latency',
+      tooltip: selected ? `${selected}s` : 'Auto',
+      selector: LATENCY_OPTIONS.map(value => ({
+        html: value ? `${value}s` : 'Auto',
+        value,
+        default: value === selected
+      })),
+      onSelect(item: SettingOption) {
+        selected = item.value;
+        applyLatency();
+        return item.html;
+      }
+    });
+
+    // playlist 支持 LL-HLS（有 part 分片）时才提供开关
+    if (details.partTarget > 0) {
+      art.setting.add({
+        name: 'live-low-latency',
+        html: 'Low latency',
+        switch: hls.lowLatencyMode,
+        onSwitch(item: SettingOption) {
+          hls.lowLatencyMode = !item.switch;
+          applyLatency();
+          return !item.switch;
+        }
+      });
+    }
+  });
+}
@@ -0,0 +1,136 @@
+import type Artplayer from 'artplayer';
+import type { SettingOption } from 'artplayer';
+import {
+  deleteDownload,
+  formatSize,
+  pauseDownload,
+  startDownload,
+  watchDownload,
+  type DownloadInfo
+} from '../utils/offlineDownload';
+
+const DOWNLOAD_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="22" height="22" fill="white">
+  <path d="M19 9h-4V3H9v6H5l7 7 7-7zM5 18v2h14v-2H5z"/>
+</svg>`;
+
+export interface OfflineDownloadOptions {
+  url: string;
+  title?: string;
+  poster?: string;
+  getMaxHeight?: () => number | undefined; // 当前手动选择的清晰度，自动时返回 undefined
+}
+
+function getStatusText(download: DownloadInfo | null): string {
+  if (!download) return '';
+  const percent = download.total > 0 ? Math.floor((download.completed / download.total) * 100) : 0;
+  switch (download.status) {
+    case 'downloading':
+      return `${percent}% · ${formatSize(download.size)}`;
+    case 'paused':
+      return `Paused ${percent}%`;
+    case 'completed':
+      return `Saved · ${formatSize(download.size)}`;
+    case 'error':
+      return 'Failed';
+    default:
+      return '';
+  }
+}
+
+// 离线下载插件：在设置面板中提供下载、暂停、继续和删除操作（仅 HLS 点播）
+export default function offlineDownloadPlugin(options: OfflineDownloadOptions) {
+  return (art: Artplayer) => {
+    const { url } = options;
+    let download: DownloadInfo | null = null;
+    let unsubscribe = () => {};
+
+    const getActions = () => {
+      switch (download?.status) {
+        case 'downloading':
+          return [
+            { html: 'Pause', action: 'pause' },
+            { html: 'Cancel', action: 'delete' }
+          ];
+        case 'paused':
+        case 'error':
+          return [
+            { html: 'Resume', action: 'start' },
+            { html: 'Cancel', action: 'delete' }
+          ];
+        case 'completed':
+          return [{ html: 'Delete download', action: 'delete' }];
+        default:
+          return [{ html: 'Download for offline', action: 'start' }];
+      }
+    };
+
+    let lastStatus: string | undefined;
+    const render = () => {
+      const status = download?.status;
+      // 状态变化时重建选项，只有进度变化时只更新提示文字
+      if (status === lastStatus && art.setting.find('offline-download')) {
+        art.setting.find('offline-download').tooltip = getStatusText(download);
+        return;
+      }
+      lastStatus = status;
+      art.setting.update({
+        name: 'offline-download',
+        html: 'Offline',
+        icon: DOWNLOAD_ICON,
+        tooltip: getStatusText(download),
+        width: 220,
+        selector: getActions(),
+        onSelect(item: SettingOption) {
+          handleAction(item.action);
+          return getStatusText(download);
+        }
+      });
+    };
+
+    const onProgress = (info: DownloadInfo | null) => {
+      download = info?.status === 'deleted' ? null : info;
+      if (download?.status === 'completed' && lastStatus === 'downloading') {
+        art.notice.show = 'Download completed, available offline';
+      }
+      if (download?.status === 'error' && lastStatus === 'downloading') {
+        art.notice.show = `Download failed: ${download.error}`;
+      }
+      render();
+    };
+
+    const onError = (error: string) => {
+      art.notice.show = `Download failed: ${error}`;
+    };
+
+    async function handleAction(action: string): Promise<void> {
+      try {
+        if (action === 'start') {
+          unsubscribe();
+          unsubscribe = startDownload(
+            { url, title: options.title, poster: options.poster, maxHeight: options.getMaxHeight?.() },
+            onProgress,
+            onError
+          );
+        } else if (action === 'pause') {
+          await pauseDownload(url);
+        } else if (action === 'delete') {
+          await deleteDownload(url);
+          download = null;
+          render();
+        }
+      } catch (e) {
+        console.error('[Offline] Download action failed:', action, e);
+        onError(e instanceof Error ? e.message : String(e));
+      }
+    }
+
+    render();
+    unsubscribe = watchDownload(url, onProgress);
+
+    art.on('destroy', () => unsubscribe());
+
+    return {
+      name: 'offlineDownload'
+    };
+  };
+}
@@ -0,0 +1,302 @@
+import type Artplayer from 'artplayer';
+import type Hls from 'hls.js';
+import type { DashSession } from '../utils/dash';
+import type { FlvSession } from '../utils/flv';
+import { addShiftHotkey } from '../utils/hotkey';
+import { getCacheStats, type CacheStats } from '../utils/serviceWorker';
+
+// 面板打开时的刷新间隔
+const REFRESH_INTERVAL = 1000;
+
+export interface PlaybackStatsSource {
+  url: string;
+  type: string;
+  getHls: () => Hls | null;
+  getDash: () => DashSession | null;
+  getFlv: () => FlvSession | null;
+}
+
+export interface LevelInfo {
+  width: number;
+  height: number;
+  bitrate: number;
+}
+
+export interface PlaybackStatsSnapshot {
+  time: string;
+  url: string;
+  type: string;
+  engine: string;
+  resolution: string;
+  levels: LevelInfo[];
+  currentLevel: number; // levels 中的下标，未知时为 -1
+  autoLevel: boolean;
+  bandwidth: number | null; // 估算带宽（bps）
+  currentTime: number;
+  duration: number;
+  bufferAhead: number;
+  bufferBehind: number;
+  droppedFrames: number | null;
+  decodedFrames: number | null;
+  stalls: number;
+  lastError: { message: string; time: string } | null;
+  serviceWorker: CacheStats | null;
+  userAgent: string;
+}
+
+export interface PlaybackStats {
+  recordError: (message: string) => void;
+  toggle: (show?: boolean) => void;
+}
+
+interface EngineInfo {
+  engine: string;
+  levels: LevelInfo[];
+  currentLevel: number;
+  autoLevel: boolean;
+  bandwidth: number | null;
+}
+
+function getEngineInfo(source: PlaybackStatsSource): EngineInfo {
+  const hls = source.getHls();
+  if (hls) {
+    return {
+      engine: 'hls.js',
+      levels: hls.levels.map(level => ({ width: level.width, height: level.height, bitrate: level.bitrate })),
+      currentLevel: hls.currentLevel,
+      autoLevel: hls.autoLevelEnabled,
+      bandwidth: hls.bandwidthEstimate || null
+    };
+  }
+
+  const dash = source.getDash();
+  if (dash) {
+    const { player } = dash;
+    const representations = player.getRepresentationsByType('video');
+    const current = player.getCurrentRepresentationForType('video');
+    const throughput = player.getAverageThroughput('video'); // kbps
+    return {
+      engine: 'dash.js',
+      levels: representations.map(item => ({ width: item.width, height: item.height, bitrate: item.bandwidth })),
+      currentLevel: current ? representations.findIndex(item => item.id === current.id) : -1,
+      autoLevel: !!player.getSettings().streaming?.abr?.autoSwitchBitrate?.video,
+      bandwidth: throughput > 0 ? throughput * 1000 : null
+    };
+  }
+
+  const flv = source.getFlv();
+  if (flv) {
+    const speed = (flv.player.statisticsInfo as { speed?: number }).speed; // KB/s
+    return {
+      engine: 'mpegts.js',
+      levels: [],
+      currentLevel: -1,
+      autoLevel: false,
+      bandwidth: speed ? speed * 1024 * 8 : null
+    };
+  }
+
+  return { engine: 'native', levels: [], currentLevel: -1, autoLevel: false, bandwidth: null };
+}
+
+// 当前位置前后已缓冲的时长
+function getBufferInfo(video: HTMLVideoElement): { ahead: number; behind: number } {
+  const { buffered, currentTime } = video;
+  for (let i = 0; i < buffered.length; i++) {
+    if (buffered.start(i) <= currentTime + 0.5 && buffered.end(i) >= currentTime) {
+      return {
+        ahead: Math.max(0, buffered.end(i) - currentTime),
+        behind: Math.max(0, currentTime - buffered.start(i))
+      };
+    }
+  }
+  return { ahead: 0, behind: 0 };
+}
+
+function formatBitrate(bps: number | null): string {
+  if (!bps) return '-';
+  if (bps >= 1000 * 1000) return `${(bps / 1000 / 1000).toFixed(2)} Mbps`;
+  return `${Math.round(bps / 1000)} Kbps`;
+}
+
+function formatLevel(level: LevelInfo): string {
+  const size = level.height ? `${level.width}x${level.height}` : 'audio';
+  return `${size} @ ${formatBitrate(level.bitrate)}`;
+}
+
+function formatLevels(snapshot: PlaybackStatsSnapshot): string {
+  if (snapshot.levels.length === 0) return '-';
+  const current = snapshot.levels[snapshot.currentLevel];
+  const mode = snapshot.autoLevel ? 'auto' : 'manual';
+  return `${current ? formatLevel(current) : '-'} (${mode}, ${snapshot.currentLevel + 1}/${snapshot.levels.length})`;
+}
+
+function formatCacheStats(stats: CacheStats | null): string {
+  if (!stats) return 'unavailable';
+  const total = stats.cache + stats.offline + stats.network;
+  if (total === 0) return 'no requests';
+  const last = stats.last ? `, last from ${stats.last.source}` : '';
+  return `${stats.cache} cached / ${stats.offline} offline / ${stats.network} network${last}`;
+}
+
+// 调试信息面板（右键菜单或 Shift+I 打开）：码率、缓冲、丢帧、卡顿、错误和 Service Worker 缓存命中，
+// 可以复制 JSON 调试报告给技术支持
+export function attachPlaybackStats(art: Artplayer, source: PlaybackStatsSource): PlaybackStats {
+  let stalls = 0;
+  let started = false;
+  let lastError: PlaybackStatsSnapshot['lastError'] = null;
+  let cacheStats: CacheStats | null = null;
+  let timer: number | null = null;
+
+  const recordError = (message: string) => {
+    lastError = { message, time: new Date().toISOString() };
+  };
+
+  // 开始播放后非拖动引起的等待算作一次卡顿
+  art.on('video:playing', () => {
+    started = true;
+  });
+  art.on('video:waiting', () => {
+    if (started && !art.video.seeking) stalls++;
+  });
+  art.on('video:error', () => {
+    const error = art.video.error;
+    recordError(error ? `MediaError ${error.code}${error.message ? `: ${error.message}` : ''}` : 'Unknown media error');
+  });
+
+  const getSnapshot = (): PlaybackStatsSnapshot => {
+    const video = art.video;
+    const buffer = getBufferInfo(video);
+    const quality = typeof video.getVideoPlaybackQuality === 'function' ? video.getVideoPlaybackQuality() : null;
+    return {
+      time: new Date().toISOString(),
+      url: source.url,
+      type: source.type,
+      ...getEngineInfo(source),
+      resolution: video.videoWidth ? `${video.videoWidth}x${video.videoHeight}` : '-',
+      currentTime: video.currentTime,
+      duration: video.duration,
+      bufferAhead: buffer.ahead,
+      bufferBehind: buffer.behind,
+      droppedFrames: quality ? quality.droppedVideoFrames : null,
+      decodedFrames: quality ? quality.totalVideoFrames : null,
+      stalls,
+      lastError,
+      serviceWorker: cacheStats,
+      userAgent: navigator.userAgent
+    };
+  };
+
+  const element = document.createElement('div');
+  element.className = 'art-stats';
+
+  const header = document.createElement('div');
+  header.className = 'art-stats-header';
+  const heading = document.createElement('span');
+  heading.textContent = 'Stats for nerds';
+  const close = document.createElement('button');
+  close.type = 'button';
+  close.className = 'art-stats-close';
+  close.textContent = '×';
+  close.setAttribute('aria-label', 'Close stats');
+  header.append(heading, close);
+
+  const table = document.createElement('dl');
+  table.className = 'art-stats-table';
+
+  const copy = document.createElement('button');
+  copy.type = 'button';
+  copy.className = 'art-stats-copy';
+  copy.textContent = 'Copy debug report';
+
+  element.append(header, table, copy);
+
+  // 面板内的点击不触发播放/暂停
+  element.addEventListener('click', event => event.stopPropagation());
+  element.addEventListener('dblclick', event => event.stopPropagation());
+
+  art.layers.add({
+    name: 'stats',
+    html: element,
+    style: { display: 'none' }
+  });
+
+  const render = () => {
+    const snapshot = getSnapshot();
+    const frames = snapshot.decodedFrames === null
+      ? '-'
+      : `${snapshot.droppedFrames} dropped / ${snapshot.decodedFrames} decoded`;
+    const rows: [string, string][] = [
+      ['Stream type', `${snapshot.type} (${snapshot.engine})`],
+      ['Resolution', snapshot.resolution],
+      ['Level', formatLevels(snapshot)],
+      ['Available', snapshot.levels.map(formatLevel).join(', ') || '-'],
+      ['Bandwidth', formatBitrate(snapshot.bandwidth)],
+      ['Buffer', `${snapshot.bufferAhead.toFixed(1)}s ahead / ${snapshot.bufferBehind.toFixed(1)}s behind`],
+      ['Frames', frames],
+      ['Stalls', String(snapshot.stalls)],
+      ['Last error', snapshot.lastError ? snapshot.lastError.message : '-'],
+      ['SW cache', formatCacheStats(snapshot.serviceWorker)]
+    ];
+
+    // 使用 textContent，URL 和错误信息来自网络
+    table.replaceChildren(...rows.flatMap(([name, value]) => {
+      const dt = document.createElement('dt');
+      dt.textContent = name;
+      const dd = document.createElement('dd');
+      dd.textContent = value;
+      return [dt, dd];
+    }));
+  };
+
+  const refresh = async () => {
+    try {
+      cacheStats = await getCacheStats();
+    } catch {
+      cacheStats = null; // 没有 Service Worker
+    }
+    if (!art.isDestroy && timer !== null) render();
+  };
+
+  const toggle = (show = timer === null) => {
+    art.layers.stats.style.display = show ? 'block' : 'none';
+    if (timer !== null) {
+      clearInterval(timer);
+      timer = null;
+    }
+    if (show) {
+      render();
+      timer = window.setInterval(refresh, REFRESH_INTERVAL);
+      refresh();
+    }
+  };
+
+  close.addEventListener('click', () => toggle(false));
+
+  copy.addEventListener('click', async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(getSnapshot(), null, 2));
+      art.notice.show = 'Debug report copied';
+    } catch (e) {
+      console.error('[Stats] Failed to copy debug report:', e);
+      art.notice.show = 'Failed to copy debug report';
+    }
+  });
+
+  art.contextmenu.add({
+    name: 'stats',
+    html: 'Stats for nerds',
+    click: (contextmenu) => {
+      toggle();
+      contextmenu.show = false;
+    }
+  });
+
+  addShiftHotkey(art, 'KeyI', () => toggle());
+
+  art.on('destroy', () => {
+    if (timer !== null) clearInterval(timer);
+  });
+
+  return { recordError, toggle };
+}
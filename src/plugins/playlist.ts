@@ -0,0 +1,229 @@
+import type Artplayer from 'artplayer';
+import type { SettingOption } from 'artplayer';
+import { addShiftHotkey } from '../utils/hotkey';
+import type { PlaylistEntry } from '../utils/playlist';
+import { getWatchRecord } from '../utils/watchHistory';
+
+// 自动播放下一集开关的存储 key（使用 Artplayer 自带的 storage）
+const AUTO_NEXT_KEY = 'autoNext';
+// 自动播放下一集前的倒计时（秒）
+const COUNTDOWN_SECONDS = 8;
+
+const PREV_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="22" height="22" fill="white">
+  <path d="M6 6h2v12H6zm3.5 6l8.5 6V6z"/>
+</svg>`;
+
+const NEXT_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="22" height="22" fill="white">
+  <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z"/>
+</svg>`;
+
+const LIST_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="22" height="22" fill="white">
+  <path d="M4 6h2v2H4V6zm0 5h2v2H4v-2zm0 5h2v2H4v-2zm4-10h12v2H8V6zm0 5h12v2H8v-2zm0 5h12v2H8v-2z"/>
+</svg>`;
+
+export interface PlaylistOptions {
+  entries: PlaylistEntry[];
+  index: number; // 当前播放的剧集
+  onSelect: (index: number) => void; // 切换剧集（由调用方更新播放源）
+}
+
+export function getEntryTitle(entries: PlaylistEntry[], index: number): string {
+  return entries[index]?.title || `Episode ${index + 1}`;
+}
+
+// 播放列表：上一集/下一集按钮和快捷键（Shift+P / Shift+N）、剧集选择面板，
+// 播放结束后倒计时自动播放下一集（可在设置中关闭）
+export function attachPlaylist(art: Artplayer, options: PlaylistOptions): void {
+  const { entries, index, onSelect } = options;
+  const hasPrev = index > 0;
+  const hasNext = index < entries.length - 1;
+  let autoNext = art.storage.get(AUTO_NEXT_KEY) !== false;
+
+  const select = (target: number) => {
+    if (target < 0 || target >= entries.length || target === index) return;
+    onSelect(target);
+  };
+
+  if (hasPrev) {
+    art.controls.add({
+      name: 'playlist-prev',
+      position: 'left',
+      index: 5,
+      html: PREV_ICON,
+      tooltip: `Previous: ${getEntryTitle(entries, index - 1)}`,
+      click: () => select(index - 1)
+    });
+  }
+
+  if (hasNext) {
+    art.controls.add({
+      name: 'playlist-next',
+      position: 'left',
+      index: 15,
+      html: NEXT_ICON,
+      tooltip: `Next: ${getEntryTitle(entries, index + 1)}`,
+      click: () => select(index + 1)
+    });
+  }
+
+  addShiftHotkey(art, 'KeyN', () => select(index + 1));
+  addShiftHotkey(art, 'KeyP', () => select(index - 1));
+
+  // 剧集选择面板，打开时读取每一集的观看进度
+  const panel = document.createElement('div');
+  panel.className = 'art-playlist-panel';
+
+  const header = document.createElement('div');
+  header.className = 'art-playlist-header';
+  header.textContent = `Episodes (${index + 1}/${entries.length})`;
+  panel.appendChild(header);
+
+  const list = document.createElement('ul');
+  list.className = 'art-playlist-list';
+  const progressBars = entries.map((_entry, itemIndex) => {
+    const item = document.createElement('li');
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = itemIndex === index ? 'art-playlist-item is-current' : 'art-playlist-item';
+    button.title = getEntryTitle(entries, itemIndex);
+
+    const number = document.createElement('span');
+    number.className = 'art-playlist-number';
+    number.textContent = String(itemIndex + 1);
+    const name = document.createElement('span');
+    name.className = 'art-playlist-name';
+    name.textContent = getEntryTitle(entries, itemIndex);
+    const progress = document.createElement('span');
+    progress.className = 'art-playlist-progress';
+
+    button.append(number, name, progress);
+    button.addEventListener('click', (event) => {
+      event.stopPropagation();
+      hidePanel();
+      select(itemIndex);
+    });
+    item.appendChild(button);
+    list.appendChild(item);
+    return progress;
+  });
+  panel.appendChild(list);
+
+  art.layers.add({
+    name: 'playlist-panel',
+    html: panel,
+    style: { display: 'none' }
+  });
+
+  const hidePanel = () => {
+    art.layers['playlist-panel'].style.display = 'none';
+  };
+
+  const showPanel = () => {
+    art.layers['playlist-panel'].style.display = 'block';
+    list.children[index]?.scrollIntoView({ block: 'nearest' });
+    entries.forEach(async (entry, itemIndex) => {
+      const record = await getWatchRecord(entry.url);
+      const ratio = record?.completed ? 1 : record && record.duration > 0 ? record.position / record.duration : 0;
+      progressBars[itemIndex].style.width = `${Math.round(ratio * 100)}%`;
+    });
+  };
+
+  art.controls.add({
+    name: 'playlist',
+    position: 'right',
+    index: 5,
+    html: LIST_ICON,
+    tooltip: 'Episodes',
+    click: () => {
+      if (art.layers['playlist-panel'].style.display === 'none') {
+        showPanel();
+      } else {
+        hidePanel();
+      }
+    }
+  });
+
+  panel.addEventListener('click', event => event.stopPropagation());
+
+  if (!hasNext) return;
+
+  art.setting.add({
+    name: 'auto-next',
+    html: 'Autoplay next episode',
+    switch: autoNext,
+    onSwitch(item: SettingOption) {
+      autoNext = !item.switch;
+      art.storage.set(AUTO_NEXT_KEY, autoNext);
+      if (!autoNext) cancelCountdown();
+      return autoNext;
+    }
+  });
+
+  // 播放结束后的下一集倒计时
+  const countdown = document.createElement('div');
+  countdown.className = 'art-playlist-countdown';
+  const countdownTitle = document.createElement('div');
+  countdownTitle.className = 'art-playlist-countdown-title';
+  countdownTitle.textContent = `Up next: ${getEntryTitle(entries, index + 1)}`;
+  const countdownText = document.createElement('div');
+  countdownText.className = 'art-playlist-countdown-text';
+  const actions = document.createElement('div');
+  actions.className = 'art-playlist-countdown-actions';
+  const playNow = document.createElement('button');
+  playNow.type = 'button';
+  playNow.textContent = 'Play now';
+  const cancel = document.createElement('button');
+  cancel.type = 'button';
+  cancel.textContent = 'Cancel';
+  actions.append(playNow, cancel);
+  countdown.append(countdownTitle, countdownText, actions);
+
+  art.layers.add({
+    name: 'playlist-countdown',
+    html: countdown,
+    style: { display: 'none' }
+  });
+
+  let timer: number | null = null;
+
+  const cancelCountdown = () => {
+    if (timer !== null) {
+      clearInterval(timer);
+      timer = null;
+    }
+    art.layers['playlist-countdown'].style.display = 'none';
+  };
+
+  const startCountdown = () => {
+    let remaining = COUNTDOWN_SECONDS;
+    countdownText.textContent = `Playing in ${remaining}s`;
+    art.layers['playlist-countdown'].style.display = 'block';
+    timer = window.setInterval(() => {
+      remaining--;
+      if (remaining <= 0) {
+        cancelCountdown();
+        select(index + 1);
+      } else {
+        countdownText.textContent = `Playing in ${remaining}s`;
+      }
+    }, 1000);
+  };
+
+  playNow.addEventListener('click', (event) => {
+    event.stopPropagation();
+    cancelCountdown();
+    select(index + 1);
+  });
+  cancel.addEventListener('click', (event) => {
+    event.stopPropagation();
+    cancelCountdown();
+  });
+
+  art.on('video:ended', () => {
+    if (autoNext && timer === null) startCountdown();
+  });
+  // 重新播放或拖动进度时取消
+  art.on('play', cancelCountdown);
+  art.on('seek', cancelCountdown);
+  art.on('destroy', cancelCountdown);
+}
@@ -0,0 +1,188 @@
+import type Artplayer from 'artplayer';
+import type { SettingOption } from 'artplayer';
+import { getSeriesMarkers, saveSeriesMarkers, type SkipMarkers } from '../utils/skipMarkers';
+
+// 自动跳过开关的存储 key（使用 Artplayer 自带的 storage）
+const AUTO_SKIP_KEY = 'autoSkip';
+// 距离标记结束不足该时长（秒）时不再显示跳过按钮
+const END_TOLERANCE = 0.5;
+
+const SKIP_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="22" height="22" fill="white">
+  <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z"/>
+</svg>`;
+
+export interface SkipMarkersOptions {
+  series: string; // 保存标记用的剧集 key
+  markers: SkipMarkers; // URL 参数指定的标记，观众在设置中标记的优先
+  autoSkip?: boolean; // 未指定时使用观众上次的选择
+  onOutro?: () => void; // 播放到片尾时调用（提示下一集）
+  storageKey?: string; // 多个播放器实例时区分保存的标记
+}
+
+function formatTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+function describe(markers: SkipMarkers): string {
+  const parts: string[] = [];
+  if (markers.introEnd !== undefined) {
+    parts.push(`Intro ${formatTime(markers.introStart ?? 0)}-${formatTime(markers.introEnd)}`);
+  } else if (markers.introStart !== undefined) {
+    parts.push(`Intro ${formatTime(markers.introStart)}-?`);
+  }
+  if (markers.outroStart !== undefined) {
+    parts.push(`Outro ${formatTime(markers.outroStart)}`);
+  }
+  return parts.join(', ') || 'None';
+}
+
+// 只保留有值的字段，避免 undefined 覆盖参数中的标记
+function definedMarkers(markers: SkipMarkers): SkipMarkers {
+  return Object.fromEntries(Object.entries(markers).filter(([, value]) => value !== undefined));
+}
+
+// 跳过片头/片尾插件：在片头显示“跳过片头”按钮，播放到片尾时通知调用方，
+// 观众可以在设置面板中标记当前位置并按剧集保存，开启自动跳过后直接跳过
+export default function skipMarkersPlugin(options: SkipMarkersOptions) {
+  return (art: Artplayer) => {
+    const { series, storageKey } = options;
+    let saved = getSeriesMarkers(series, storageKey);
+    let autoSkip = options.autoSkip ?? art.storage.get(AUTO_SKIP_KEY) === true;
+    let introSkipped = false;
+    let outroReached = false;
+
+    const getMarkers = (): SkipMarkers => ({ ...definedMarkers(options.markers), ...definedMarkers(saved) });
+
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'art-skip-button';
+
+    art.layers.add({
+      name: 'skip-button',
+      html: button,
+      style: { display: 'none' }
+    });
+
+    const skipTo = (time: number) => {
+      art.currentTime = time;
+      art.layers['skip-button'].style.display = 'none';
+    };
+
+    let skipTarget = 0;
+    button.addEventListener('click', (event) => {
+      event.stopPropagation();
+      skipTo(skipTarget);
+    });
+
+    const update = () => {
+      const { currentTime, duration } = art;
+      const markers = getMarkers();
+      const introStart = markers.introStart ?? 0;
+      const inIntro = markers.introEnd !== undefined
+        && currentTime >= introStart
+        && currentTime < markers.introEnd - END_TOLERANCE;
+      const inOutro = markers.outroStart !== undefined
+        && duration > 0
+        && currentTime >= markers.outroStart
+        && currentTime < duration - END_TOLERANCE;
+
+      // 自动跳过片头只执行一次，观众拖回片头时不再跳过
+      if (inIntro && autoSkip && !introSkipped) {
+        introSkipped = true;
+        skipTo(markers.introEnd!);
+        art.notice.show = 'Intro skipped';
+        return;
+      }
+
+      if (inOutro && !outroReached) {
+        outroReached = true;
+        options.onOutro?.();
+        if (autoSkip) {
+          skipTo(duration);
+          return;
+        }
+      } else if (markers.outroStart !== undefined && currentTime < markers.outroStart) {
+        // 拖回片尾之前，下次到达片尾时重新提示
+        outroReached = false;
+      }
+
+      if (inIntro) {
+        skipTarget = markers.introEnd!;
+        button.textContent = 'Skip intro';
+      } else if (inOutro) {
+        skipTarget = duration;
+        button.textContent = 'Skip outro';
+      }
+      art.layers['skip-button'].style.display = inIntro || inOutro ? 'block' : 'none';
+    };
+
+    art.on('video:timeupdate', update);
+    art.on('seek', update);
+
+    // 在设置面板中标记当前位置
+    const mark = (action: string) => {
+      const time = art.currentTime;
+      const next: SkipMarkers = { ...saved };
+      const current = getMarkers();
+
+      if (action === 'introStart') {
+        next.introStart = time;
+        if (current.introEnd !== undefined && current.introEnd <= time) next.introEnd = undefined;
+      } else if (action === 'introEnd') {
+        if (time <= (current.introStart ?? 0)) {
+          art.notice.show = 'Intro end must be after intro start';
+          return;
+        }
+        next.introEnd = time;
+        next.introStart = current.introStart;
+      } else if (action === 'outroStart') {
+        next.outroStart = time;
+      } else if (action === 'clear') {
+        next.introStart = undefined;
+        next.introEnd = undefined;
+        next.outroStart = undefined;
+      }
+
+      saved = next;
+      saveSeriesMarkers(series, saved, storageKey);
+      art.notice.show = action === 'clear' ? 'Marks cleared' : `Marked at ${formatTime(time)}`;
+      update();
+    };
+
+    art.setting.add({
+      name: 'skip-markers',
+      html: 'Intro / outro',
+      icon: SKIP_ICON,
+      tooltip: describe(getMarkers()),
+      width: 220,
+      selector: [
+        { html: 'Mark intro start', action: 'introStart' },
+        { html: 'Mark intro end', action: 'introEnd' },
+        { html: 'Mark outro start', action: 'outroStart' },
+        { html: 'Clear marks', action: 'clear' }
+      ],
+      onSelect(item: SettingOption) {
+        mark(item.action);
+        return describe(getMarkers());
+      }
+    });
+
+    art.setting.add({
+      name: 'auto-skip',
+      html: 'Auto skip intro / outro',
+      switch: autoSkip,
+      onSwitch(item: SettingOption) {
+        autoSkip = !item.switch;
+        art.storage.set(AUTO_SKIP_KEY, autoSkip);
+        return autoSkip;
+      }
+    });
+
+    return {
+      name: 'skipMarkers'
+    };
+  };
+}
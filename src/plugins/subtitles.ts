@@ -0,0 +1,126 @@
+import type Artplayer from 'artplayer';
+import type { SettingOption } from 'artplayer';
+import { loadSubtitleAsVtt, type SubtitleTrack } from '../utils/subtitle';
+
+// 字幕字号的存储 key（使用 Artplayer 自带的 storage）
+const FONT_SIZE_KEY = 'subtitleFontSize';
+const DEFAULT_FONT_SIZE = 20;
+
+const SUBTITLE_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="22" height="22" fill="white">
+  <path d="M20 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2zM4 12h4v2H4v-2zm10 6H4v-2h10v2zm6 0h-4v-2h4v2zm0-4H10v-2h10v2z"/>
+</svg>`;
+
+// 优先选择与浏览器语言一致的字幕
+function pickDefaultTrack(tracks: SubtitleTrack[]): number {
+  const language = navigator.language.toLowerCase();
+  const index = tracks.findIndex(track => {
+    const lang = track.lang?.toLowerCase();
+    return lang && (lang === language || lang === language.split('-')[0]);
+  });
+  return index === -1 ? 0 : index;
+}
+
+// 外挂字幕插件：加载字幕并在设置面板中提供开关、字号、偏移和轨道切换
+export default function subtitlesPlugin(tracks: SubtitleTrack[]) {
+  return (art: Artplayer) => {
+    // 转换后的 VTT 按 URL 缓存，切换轨道时无需重复下载
+    const vttCache = new Map<string, string>();
+    let current = pickDefaultTrack(tracks);
+    let offset = 0;
+
+    async function switchTrack(index: number): Promise<void> {
+      const track = tracks[index];
+      current = index;
+
+      try {
+        let vtt = vttCache.get(track.url);
+        if (vtt === undefined) {
+          vtt = await loadSubtitleAsVtt(track.url);
+          vttCache.set(track.url, vtt);
+        }
+
+        // 字幕文本已在转换时转义，Artplayer 加载完 blob 后会自行创建新的 URL
+        const blobUrl = URL.createObjectURL(new Blob([vtt], { type: 'text/vtt' }));
+        try {
+          await art.subtitle.switch(blobUrl, { name: track.label, type: 'vtt' });
+        } finally {
+          URL.revokeObjectURL(blobUrl);
+        }
+        art.subtitle.show = true;
+        // 新轨道的时间轴是原始时间，需要重新应用偏移
+        if (offset !== 0) {
+          art.subtitleOffset = offset;
+        }
+      } catch (e) {
+        console.error('[Subtitle] Failed to load subtitle:', track.url, e);
+        art.notice.show = `Failed to load subtitle: ${track.label}`;
+      }
+    }
+
+    const fontSize = Number(art.storage.get(FONT_SIZE_KEY)) || DEFAULT_FONT_SIZE;
+    art.cssVar('--art-subtitle-font-size', `${fontSize}px`);
+
+    if (tracks.length > 0) {
+      art.setting.add({
+        name: 'subtitles',
+        html: 'Subtitles',
+        icon: SUBTITLE_ICON,
+        tooltip: tracks[current].label,
+        width: 260,
+        selector: [
+          {
+            html: 'Show',
+            switch: true,
+            onSwitch(item: SettingOption) {
+              const show = !item.switch;
+              art.subtitle.show = show;
+              return show;
+            }
+          },
+          {
+            html: 'Font Size',
+            tooltip: `${fontSize}px`,
+            range: [fontSize, 12, 48, 1],
+            onChange(item: SettingOption) {
+              const size = item.range[0];
+              art.cssVar('--art-subtitle-font-size', `${size}px`);
+              art.storage.set(FONT_SIZE_KEY, size);
+              return `${size}px`;
+            }
+          },
+          {
+            html: 'Offset',
+            tooltip: '0s',
+            range: [0, -10, 10, 0.1],
+            onChange(item: SettingOption) {
+              offset = item.range[0];
+              art.subtitleOffset = offset;
+              return `${offset}s`;
+            }
+          },
+          ...tracks.map((track, index) => ({
+            html: track.label,
+            default: index === current,
+            trackIndex: index
+          }))
+        ],
+        onSelect(item: SettingOption) {
+          if (typeof item.trackIndex !== 'number') return;
+          switchTrack(item.trackIndex);
+          return item.html;
+        }
+      });
+
+      if (art.isReady) {
+        switchTrack(current);
+      } else {
+        art.once('ready', () => switchTrack(current));
+      }
+    }
+
+    return {
+      name: 'subtitles',
+      switchTrack
+    };
+  };
+}
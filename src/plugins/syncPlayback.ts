@@ -0,0 +1,254 @@
+import type Artplayer from 'artplayer';
+import type { SettingOption } from 'artplayer';
+import { createId } from '../utils/id';
+import {
+  createSyncTransport,
+  type SyncMessage,
+  type SyncOptions,
+  type SyncPlaybackState
+} from '../utils/sync';
+
+// 主持人发送状态的间隔
+const HEARTBEAT_INTERVAL = 1000;
+// 超过该时长没有收到主持人的状态时视为主持人已离开
+const HOST_TIMEOUT = 4000;
+// 自动角色：加入后等待主持人回复的时长，之后没有主持人时自己成为主持人
+const ELECTION_DELAY = 1500;
+// 与主持人的偏差超过该值（秒）时直接跳转
+const SEEK_THRESHOLD = 1;
+// 偏差超过该值（秒）时微调倍速追赶，小于该值时恢复正常倍速
+const NUDGE_THRESHOLD = 0.15;
+// 微调倍速的幅度
+const NUDGE_RATE = 0.05;
+
+const SYNC_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="22" height="22" fill="white">
+  <path d="M16 11c1.66 0 2.99-1.34 2.99-3S17.66 5 16 5c-1.66 0-3 1.34-3 3s1.34 3 3 3zm-8 0c1.66 0 2.99-1.34 2.99-3S9.66 5 8 5C6.34 5 5 6.34 5 8s1.34 3 3 3zm0 2c-2.33 0-7 1.17-7 3.5V19h14v-2.5c0-2.33-4.67-3.5-7-3.5zm8 0c-.29 0-.62.02-.97.05 1.16.84 1.97 1.97 1.97 3.45V19h6v-2.5c0-2.33-4.67-3.5-7-3.5z"/>
+</svg>`;
+
+export interface SyncPlaybackOptions extends SyncOptions {
+  url: string; // 只与播放同一视频的成员同步
+}
+
+// 一起看：播放、暂停、拖动和倍速操作发给房间里的所有成员；
+// 主持人定时发送播放状态，成员按偏差微调倍速或直接跳转来保持同步
+export function attachSyncPlayback(art: Artplayer, options: SyncPlaybackOptions): void {
+  const { url, role } = options;
+  const id = createId();
+
+  let isHost = false;
+  let hostId: string | null = null;
+  let lastHostAt = 0;
+  let electionTimer: number | null = null;
+  // 所有成员共同的倍速，微调时以此为基准
+  let baseRate = art.playbackRate || 1;
+  // 正在执行收到的操作，期间触发的 play/pause/seek 事件不再转发
+  let applying = 0;
+  // 浏览器禁止自动播放，等观众点击播放后再跟随
+  let playBlocked = false;
+
+  const getState = (): SyncPlaybackState => ({
+    url,
+    time: art.currentTime,
+    paused: art.video.paused,
+    rate: baseRate
+  });
+
+  // 微调倍速直接修改 video，避免 Artplayer 显示倍速提示
+  const setRate = (rate: number) => {
+    if (Math.abs(art.video.playbackRate - rate) > 0.001) {
+      art.video.playbackRate = rate;
+    }
+  };
+
+  const apply = (task: () => void | Promise<unknown>) => {
+    applying++;
+    Promise.resolve()
+      .then(task)
+      .catch(() => {
+        playBlocked = true;
+        art.notice.show = 'Press play to join the watch party';
+      })
+      .finally(() => applying--);
+  };
+
+  const applyPaused = (paused: boolean) => {
+    if (paused && !art.video.paused) {
+      apply(() => art.pause());
+    } else if (!paused && art.video.paused && !playBlocked) {
+      apply(() => art.play());
+    }
+  };
+
+  const applySeek = (time: number) => {
+    apply(() => {
+      art.seek = time;
+    });
+  };
+
+  const renderSetting = () => {
+    art.setting.update({
+      name: 'sync',
+      html: 'Watch together',
+      icon: SYNC_ICON,
+      tooltip: isHost ? 'Host' : hostId ? 'Following host' : 'Waiting for host',
+      selector: isHost ? [{ html: 'You are the host' }] : [{ html: 'Become host', action: 'claim' }],
+      onSelect(item: SettingOption) {
+        if (item.action === 'claim') claimHost();
+        return isHost ? 'Host' : 'Following host';
+      }
+    });
+  };
+
+  const transport = createSyncTransport(options, (message: SyncMessage) => {
+    if (message.from === id || art.isDestroy) return;
+
+    switch (message.type) {
+      case 'hello':
+        if (isHost) transport.send({ type: 'state', from: id, ...getState() });
+        break;
+      case 'claim':
+        hostId = message.from;
+        lastHostAt = Date.now();
+        cancelElection();
+        if (isHost) {
+          isHost = false;
+          art.notice.show = 'Another viewer is now the host';
+        }
+        renderSetting();
+        break;
+      case 'bye':
+        if (message.from === hostId) handleHostLost();
+        break;
+      case 'state':
+        // 同时有两个主持人时保留 ID 较小的一方
+        if (isHost) {
+          if (message.from > id) return;
+          isHost = false;
+        }
+        if (hostId !== message.from) {
+          hostId = message.from;
+          art.notice.show = 'Synced with the host';
+        }
+        lastHostAt = Date.now();
+        cancelElection();
+        renderSetting();
+        if (message.url === url) correct(message);
+        break;
+      case 'control':
+        if (message.url !== url) return;
+        baseRate = message.rate;
+        setRate(baseRate);
+        applyPaused(message.paused);
+        if (message.action === 'seek' || Math.abs(art.currentTime - message.time) > SEEK_THRESHOLD) {
+          applySeek(message.time);
+        }
+        break;
+    }
+  }, () => {
+    // 连接（或重连）后宣布加入，主持人会回复当前状态
+    transport.send({ type: 'hello', from: id });
+    if (role === 'host' || isHost) {
+      claimHost();
+    } else if (!hostId) {
+      scheduleElection(ELECTION_DELAY);
+    }
+  });
+
+  // 成员按主持人的状态校正：暂停状态和倍速一致，偏差大时跳转，偏差小时微调倍速
+  function correct(state: SyncPlaybackState) {
+    baseRate = state.rate;
+    applyPaused(state.paused);
+    if (art.video.seeking || applying > 0) return;
+
+    const drift = art.currentTime - state.time;
+    if (state.paused) {
+      if (Math.abs(drift) > NUDGE_THRESHOLD) applySeek(state.time);
+      setRate(baseRate);
+    } else if (Math.abs(drift) > SEEK_THRESHOLD) {
+      applySeek(state.time);
+      setRate(baseRate);
+    } else if (Math.abs(drift) > NUDGE_THRESHOLD) {
+      // 落后时加快，超前时放慢
+      setRate(baseRate * (drift > 0 ? 1 - NUDGE_RATE : 1 + NUDGE_RATE));
+    } else {
+      setRate(baseRate);
+    }
+  }
+
+  function claimHost() {
+    cancelElection();
+    if (!isHost) art.notice.show = 'You are the host of the watch party';
+    isHost = true;
+    hostId = id;
+    setRate(baseRate);
+    transport.send({ type: 'claim', from: id });
+    transport.send({ type: 'state', from: id, ...getState() });
+    renderSetting();
+  }
+
+  function cancelElection() {
+    if (electionTimer !== null) {
+      clearTimeout(electionTimer);
+      electionTimer = null;
+    }
+  }
+
+  // 自动角色的成员在没有主持人时接任（随机延迟，避免多人同时接任）
+  function scheduleElection(delay: number) {
+    if (role !== 'auto' || electionTimer !== null) return;
+    electionTimer = window.setTimeout(() => {
+      electionTimer = null;
+      if (!hostId || Date.now() - lastHostAt > HOST_TIMEOUT) claimHost();
+    }, delay);
+  }
+
+  function handleHostLost() {
+    hostId = null;
+    setRate(baseRate);
+    renderSetting();
+    scheduleElection(Math.random() * ELECTION_DELAY);
+  }
+
+  const heartbeat = window.setInterval(() => {
+    if (isHost) {
+      transport.send({ type: 'state', from: id, ...getState() });
+    } else if (hostId && Date.now() - lastHostAt > HOST_TIMEOUT) {
+      handleHostLost();
+    }
+  }, HEARTBEAT_INTERVAL);
+
+  // 本地的操作发给所有成员（执行收到的操作时触发的事件除外）
+  const broadcast = (action: 'play' | 'pause' | 'seek' | 'rate') => {
+    if (applying > 0) return;
+    transport.send({ type: 'control', from: id, action, ...getState() });
+  };
+
+  // 被禁止自动播放后观众点击播放只是加入，不把自己的进度发给其他成员，由主持人的状态校正
+  art.on('play', () => {
+    if (playBlocked) {
+      playBlocked = false;
+      return;
+    }
+    broadcast('play');
+  });
+  art.on('pause', () => broadcast('pause'));
+  art.on('seek', () => broadcast('seek'));
+
+  // 观众修改倍速时更新共同的倍速（微调时 video 的倍速与基准不同，不算修改）
+  art.on('video:ratechange', () => {
+    const rate = art.video.playbackRate;
+    const nudged = [baseRate, baseRate * (1 - NUDGE_RATE), baseRate * (1 + NUDGE_RATE)];
+    if (nudged.some(value => Math.abs(value - rate) < 0.001)) return;
+    baseRate = rate;
+    broadcast('rate');
+  });
+
+  renderSetting();
+
+  art.on('destroy', () => {
+    clearInterval(heartbeat);
+    cancelElection();
+    transport.send({ type: 'bye', from: id });
+    transport.close();
+  });
+}
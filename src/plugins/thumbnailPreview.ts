@@ -0,0 +1,89 @@
+import type Artplayer from 'artplayer';
+import type { ThumbnailImage, ThumbnailProvider } from '../utils/thumbnails';
+
+// 整张图片作为预览图时的显示尺寸
+const DEFAULT_WIDTH = 160;
+const DEFAULT_HEIGHT = 90;
+
+// 鼠标悬停或拖动进度条时，在进度条上方显示对应时间的预览图
+export function attachThumbnailPreview(art: Artplayer, provider: ThumbnailProvider): void {
+  const { $progress } = art.template;
+
+  const preview = document.createElement('div');
+  preview.className = 'art-thumbnail-preview';
+  preview.style.display = 'none';
+  $progress.appendChild(preview);
+
+  let request = 0;
+  let active = false;
+  let dragging = false;
+
+  const render = (image: ThumbnailImage, ratio: number) => {
+    const sprite = image.w !== undefined && image.h !== undefined;
+    const width = sprite ? image.w! : DEFAULT_WIDTH;
+    const height = sprite ? image.h! : DEFAULT_HEIGHT;
+
+    preview.style.width = `${width}px`;
+    preview.style.height = `${height}px`;
+    preview.style.backgroundImage = `url("${image.url.replace(/"/g, '%22')}")`;
+    preview.style.backgroundPosition = sprite ? `-${image.x ?? 0}px -${image.y ?? 0}px` : 'center';
+    preview.style.backgroundSize = sprite ? 'auto' : 'cover';
+
+    // 不超出进度条两端
+    const barWidth = $progress.clientWidth;
+    const left = Math.min(Math.max(ratio * barWidth - width / 2, 0), Math.max(barWidth - width, 0));
+    preview.style.left = `${left}px`;
+    preview.style.display = 'block';
+  };
+
+  const hide = () => {
+    active = false;
+    request++;
+    preview.style.display = 'none';
+  };
+
+  const show = async (event: PointerEvent) => {
+    const duration = art.duration;
+    if (!Number.isFinite(duration) || duration <= 0) return;
+
+    const rect = $progress.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    const current = ++request;
+    active = true;
+
+    const image = await provider(ratio * duration);
+    // 期间鼠标已经移动或离开
+    if (current !== request || !active || art.isDestroy) return;
+    if (image) {
+      render(image, ratio);
+    } else {
+      preview.style.display = 'none';
+    }
+  };
+
+  const handleDocumentMove = (event: PointerEvent) => {
+    if (dragging) show(event);
+  };
+
+  const handleUp = () => {
+    if (!dragging) return;
+    dragging = false;
+    hide();
+  };
+
+  $progress.addEventListener('pointermove', show);
+  $progress.addEventListener('pointerdown', (event) => {
+    dragging = true;
+    show(event);
+  });
+  $progress.addEventListener('pointerleave', () => {
+    if (!dragging) hide();
+  });
+  document.addEventListener('pointermove', handleDocumentMove);
+  document.addEventListener('pointerup', handleUp);
+
+  art.on('destroy', () => {
+    document.removeEventListener('pointermove', handleDocumentMove);
+    document.removeEventListener('pointerup', handleUp);
+  });
+}
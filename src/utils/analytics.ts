@@ -0,0 +1,149 @@
+import { createId } from './id';
+import type { AnalyticsConfig } from './playerConfig';
+
+// 播放质量（QoE）上报：事件先放入队列，按间隔、数量或页面隐藏时用 navigator.sendBeacon 批量发送 JSON
+// 同一页面的播放器共用会话 ID 和上报队列；未配置上报地址或会话未被抽中时不收集任何数据
+
+// 上报数据格式版本，格式出现不兼容变更时递增
+export const ANALYTICS_VERSION = 1;
+// 单批最多的事件数（sendBeacon 的数据量有上限，约 64KB）
+const MAX_BATCH_EVENTS = 50;
+// 会话 ID 和抽样结果保存在 sessionStorage，同一标签页内刷新后不变
+const SESSION_KEY = 'artplayer_analytics_session';
+
+export type AnalyticsEventData =
+  | { type: 'load'; url: string; streamType: string; live: boolean; autoplay: boolean }
+  | { type: 'startup'; startupTime: number; loadTime: number } // 毫秒：从请求播放 / 创建播放器到开始播放
+  | { type: 'rebuffer'; duration: number } // 毫秒
+  | { type: 'bitrate'; from: number; to: number; height: number; auto: boolean } // bps
+  | { type: 'error'; message: string; code?: number }
+  | { type: 'watch'; watchTime: number } // 上次上报后实际播放的秒数
+  | { type: 'complete' }
+  | {
+    type: 'end';
+    watchTime: number;
+    rebufferCount: number;
+    rebufferDuration: number;
+    bitrateSwitches: number;
+    completed: boolean;
+    duration: number;
+  };
+
+// 每个事件都带有所属的播放 ID、时间戳和播放位置
+export type AnalyticsEvent = AnalyticsEventData & {
+  playbackId: string;
+  timestamp: number;
+  position: number;
+};
+
+export interface AnalyticsBatch {
+  version: number;
+  sessionId: string;
+  sentAt: number;
+  events: AnalyticsEvent[];
+}
+
+export interface AnalyticsQueue {
+  push: (event: AnalyticsEvent) => void;
+  flush: () => void;
+  // 发送前调用，用于补充累计的观看时长等数据，返回取消函数
+  onBeforeFlush: (listener: () => void) => () => void;
+}
+
+interface AnalyticsSession {
+  id: string;
+  roll: number; // 0~1 的随机数，小于采样率时收集
+}
+
+let session: AnalyticsSession | null = null;
+
+function getSession(): AnalyticsSession {
+  if (session) return session;
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(SESSION_KEY) || 'null');
+    if (stored && typeof stored.id === 'string' && typeof stored.roll === 'number') {
+      session = stored as AnalyticsSession;
+      return session;
+    }
+  } catch {
+    // 无法读取时使用新的会话
+  }
+  session = { id: createId(), roll: Math.random() };
+  try {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch {
+    // 隐私模式等情况下只在内存中保存
+  }
+  return session;
+}
+
+// 是否收集：配置了上报地址且当前会话被抽中（同一会话的结果不变）
+export function isAnalyticsEnabled(config: AnalyticsConfig): config is AnalyticsConfig & { beacon: string } {
+  return !!config.beacon && config.sampleRate > 0 && getSession().roll < config.sampleRate;
+}
+
+// 上报的地址不带查询参数和 hash，避免把签名、token 等发给统计服务
+export function stripUrl(url: string): string {
+  try {
+    const parsed = new URL(url, window.location.href);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url.split(/[?#]/)[0];
+  }
+}
+
+// sendBeacon 使用 text/plain，跨域上报不需要 CORS 预检；不支持或排队失败时改用 keepalive 的 fetch
+function send(beacon: string, batch: AnalyticsBatch): void {
+  const body = JSON.stringify(batch);
+  try {
+    if (typeof navigator.sendBeacon === 'function' && navigator.sendBeacon(beacon, body)) return;
+  } catch {
+    // 继续尝试 fetch
+  }
+  fetch(beacon, { method: 'POST', body, keepalive: true, mode: 'no-cors' }).catch((e) => {
+    console.warn('[Analytics] Failed to send beacon:', e);
+  });
+}
+
+// 每个上报地址一个队列
+const queues = new Map<string, AnalyticsQueue>();
+
+export function getAnalyticsQueue(config: AnalyticsConfig & { beacon: string }): AnalyticsQueue {
+  const existing = queues.get(config.beacon);
+  if (existing) return existing;
+
+  const { beacon } = config;
+  const listeners = new Set<() => void>();
+  let events: AnalyticsEvent[] = [];
+
+  const flush = () => {
+    listeners.forEach(listener => listener());
+    while (events.length > 0) {
+      const batch = events.slice(0, MAX_BATCH_EVENTS);
+      events = events.slice(MAX_BATCH_EVENTS);
+      send(beacon, { version: ANALYTICS_VERSION, sessionId: getSession().id, sentAt: Date.now(), events: batch });
+    }
+  };
+
+  const queue: AnalyticsQueue = {
+    push: (event) => {
+      events.push(event);
+      if (events.length >= MAX_BATCH_EVENTS) flush();
+    },
+    flush,
+    onBeforeFlush: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+
+  // 定时发送；页面隐藏或关闭时立即发送（之后页面可能不会再运行）
+  window.setInterval(flush, config.flushInterval * 1000);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flush();
+  });
+  window.addEventListener('pagehide', flush);
+
+  queues.set(beacon, queue);
+  return queue;
+}
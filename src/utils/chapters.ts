@@ -0,0 +1,86 @@
+import { parseCueBlocks, parseTimestamp } from './subtitle';
+
+// 章节：WebVTT 章节文件，或内联的 JSON 列表
+
+export interface Chapter {
+  start: number; // 秒
+  end?: number; // 未指定时到下一章开始（或视频结束）
+  title: string;
+}
+
+// 时间可以是秒数，也可以是 mm:ss / hh:mm:ss 字符串
+function toSeconds(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const seconds = parseTimestamp(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
+
+// 按开始时间排序，去掉无效和重复的章节
+export function normalizeChapters(chapters: Chapter[]): Chapter[] {
+  const sorted = chapters
+    .filter(chapter => Number.isFinite(chapter.start) && chapter.start >= 0)
+    .sort((a, b) => a.start - b.start);
+  return sorted.filter((chapter, index) => index === 0 || chapter.start !== sorted[index - 1].start);
+}
+
+export function parseChaptersVtt(text: string): Chapter[] {
+  return normalizeChapters(parseCueBlocks(text)
+    .map(cue => ({ start: cue.start, end: cue.end, title: cue.text.replace(/<[^>]*>/g, '').trim() }))
+    .filter(chapter => chapter.title));
+}
+
+// 支持 [{ "start": 0, "title": "Intro" }]、[{ "time": "1:30", "title": "..." }] 和 [[0, "Intro"], ["1:30", "..."]]
+export function parseChaptersJson(value: unknown): Chapter[] {
+  if (!Array.isArray(value)) {
+    throw new Error('Chapters JSON must be an array');
+  }
+
+  const chapters: Chapter[] = [];
+  for (const item of value) {
+    const [rawStart, rawTitle, rawEnd] = Array.isArray(item)
+      ? item
+      : item && typeof item === 'object'
+        ? [item.start ?? item.time, item.title ?? item.name, item.end]
+        : [];
+    const start = toSeconds(rawStart);
+    if (start === null || typeof rawTitle !== 'string' || !rawTitle.trim()) continue;
+    const end = toSeconds(rawEnd);
+    chapters.push({ start, title: rawTitle.trim(), ...(end !== null && end > start ? { end } : {}) });
+  }
+  return normalizeChapters(chapters);
+}
+
+// chapters 参数：以 [ 开头时按内联 JSON 解析，否则作为 URL 下载（内容为 JSON 或 WebVTT）
+export async function loadChapters(value: string): Promise<Chapter[]> {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[')) {
+    return parseChaptersJson(JSON.parse(trimmed));
+  }
+
+  const response = await fetch(trimmed);
+  if (!response.ok) {
+    throw new Error(`Failed to load chapters: HTTP ${response.status}`);
+  }
+  const text = await response.text();
+  return text.trimStart().startsWith('[')
+    ? parseChaptersJson(JSON.parse(text))
+    : parseChaptersVtt(text);
+}
+
+// 章节的结束时间（未指定时到下一章开始）
+export function getChapterEnd(chapters: Chapter[], index: number, duration: number): number {
+  const chapter = chapters[index];
+  const next = chapters[index + 1];
+  return chapter.end ?? (next ? next.start : duration);
+}
+
+// 当前时间所在章节的下标，不在任何章节中时返回 -1
+export function findChapterIndex(chapters: Chapter[], time: number, duration: number): number {
+  for (let i = chapters.length - 1; i >= 0; i--) {
+    if (time >= chapters[i].start) {
+      return time < getChapterEnd(chapters, i, duration) ? i : -1;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,120 @@
+import type { MediaPlayerClass } from 'dashjs';
+import { createDashRequestInterceptor, isRequestPolicyEmpty, type RequestPolicy } from './requestPolicy';
+import { createRetrier } from './retry';
+
+export interface DashSession {
+  player: MediaPlayerClass;
+  destroy: () => void;
+}
+
+// 创建 dash.js 播放器（按需加载，避免 HLS 播放也要下载 dash.js）
+// onFatal：多次恢复失败后调用，由调用方切换备用源或提示错误
+// policy：MPD、分片和许可证请求使用的请求策略
+export async function createDashPlayer(
+  video: HTMLVideoElement,
+  url: string,
+  onFatal?: (reason: string) => void,
+  policy?: RequestPolicy
+): Promise<DashSession | null> {
+  const dashjs = await import('dashjs');
+
+  if (!dashjs.supportsMediaSource()) {
+    console.warn('[DASH] MediaSource is not supported');
+    return null;
+  }
+
+  const player = dashjs.MediaPlayer().create();
+  player.updateSettings({
+    streaming: {
+      abr: {
+        // 自适应码率：根据带宽和缓冲自动切换清晰度
+        autoSwitchBitrate: { video: true, audio: true }
+      },
+      buffer: {
+        fastSwitchEnabled: true // 切到更高清晰度时替换已缓冲的低清分片
+      },
+      retryAttempts: {
+        MPD: 3,
+        MediaSegment: 6,
+        InitializationSegment: 4
+      }
+    }
+  });
+
+  if (policy && !isRequestPolicyEmpty(policy)) {
+    player.addRequestInterceptor(createDashRequestInterceptor(policy));
+  }
+
+  // 连续恢复失败的次数有限制，播放成功后清零
+  const retrier = createRetrier();
+
+  // 从当前位置重新加载 manifest 来恢复播放
+  const recover = (reason: string) => {
+    const position = video.currentTime;
+    const scheduled = retrier.schedule(() => {
+      player.attachSource(url, position);
+    });
+
+    if (!scheduled) {
+      console.error('[DASH] Fatal error, cannot recover:', reason);
+      onFatal?.(reason);
+    }
+  };
+
+  // dash.js 的 ERROR 事件也用于不影响播放的错误（字幕解析、时间同步、xlink 等），只有下面两类需要处理
+  const { errors } = dashjs.MediaPlayer;
+  // manifest 或分片在 dash.js 自身的重试用完后仍然加载失败，重新加载 manifest 来恢复
+  const recoverableErrors = new Set<number>([
+    errors.MANIFEST_LOADER_LOADING_FAILURE_ERROR_CODE,
+    errors.DOWNLOAD_ERROR_ID_MANIFEST_CODE,
+    errors.DATA_UPDATE_FAILED_ERROR_CODE,
+    errors.DOWNLOAD_ERROR_ID_INITIALIZATION_CODE,
+    errors.DOWNLOAD_ERROR_ID_CONTENT_CODE
+  ]);
+  // manifest 无效或浏览器不支持，重试也无法播放，直接交给调用方
+  const unsupportedErrors = new Set<number>([
+    errors.MANIFEST_LOADER_PARSING_FAILURE_ERROR_CODE,
+    errors.MANIFEST_ERROR_ID_PARSE_CODE,
+    errors.MANIFEST_ERROR_ID_NOSTREAMS_CODE,
+    errors.MANIFEST_ERROR_ID_MULTIPLEXED_CODE,
+    errors.MEDIASOURCE_TYPE_UNSUPPORTED_CODE,
+    errors.CAPABILITY_MEDIASOURCE_ERROR_CODE
+  ]);
+
+  player.on(dashjs.MediaPlayer.events.ERROR, (event: unknown) => {
+    const { error } = event as { error?: { code?: number; message?: string } | string };
+    const code = typeof error === 'string' ? undefined : error?.code;
+    const message = typeof error === 'string' ? error : error?.message ?? 'unknown';
+
+    if (code !== undefined && unsupportedErrors.has(code)) {
+      console.error('[DASH] Fatal error:', code, message);
+      retrier.cancel();
+      onFatal?.(message);
+    } else if (code !== undefined && recoverableErrors.has(code)) {
+      console.error('[DASH] Error:', code, message);
+      recover(message);
+    } else {
+      console.warn('[DASH] Non-fatal error:', code, message);
+    }
+  });
+
+  player.on(dashjs.MediaPlayer.events.PLAYBACK_ERROR, (event) => {
+    console.error('[DASH] Playback error:', event.error?.code);
+    recover(`media error ${event.error?.code}`);
+  });
+
+  player.on(dashjs.MediaPlayer.events.PLAYBACK_PLAYING, () => {
+    retrier.reset();
+  });
+
+  player.initialize(video, url, video.autoplay);
+
+  return {
+    player,
+    destroy: () => {
+      // 取消还没执行的恢复
+      retrier.cancel();
+      player.reset();
+    }
+  };
+}
@@ -0,0 +1,88 @@
+import type Mpegts from 'mpegts.js';
+import { applyRequestPolicy, type RequestPolicy } from './requestPolicy';
+import { createRetrier } from './retry';
+
+export interface FlvSession {
+  player: Mpegts.Player;
+  destroy: () => void;
+}
+
+// 创建 mpegts.js 播放器，通过 MSE 把 FLV 转封装为 fMP4 播放（按需加载）
+// onFatal：多次恢复失败后调用，由调用方切换备用源或提示错误
+// policy：视频流请求使用的请求策略（按 segment 类型改写地址）
+export async function createFlvPlayer(
+  video: HTMLVideoElement,
+  url: string,
+  isLive: boolean,
+  onFatal?: (reason: string) => void,
+  policy?: RequestPolicy
+): Promise<FlvSession | null> {
+  const { default: mpegts } = await import('mpegts.js');
+
+  if (!mpegts.isSupported()) {
+    console.warn('[FLV] MediaSource is not supported');
+    return null;
+  }
+
+  const request = applyRequestPolicy(policy, url, 'segment');
+  const player = mpegts.createPlayer(
+    { type: 'flv', url: request.url, isLive },
+    {
+      headers: request.headers,
+      enableWorker: true,
+      lazyLoad: !isLive, // 点播时缓冲足够后暂停下载
+      // 直播：延迟过大时追帧
+      liveBufferLatencyChasing: isLive,
+      liveBufferLatencyMaxLatency: 3,
+      liveBufferLatencyMinRemain: 0.5
+    }
+  );
+
+  // 连续恢复失败的次数有限制，播放成功后清零
+  const retrier = createRetrier();
+
+  // 重新建立连接来恢复播放，点播时回到出错前的位置
+  const recover = (reason: string) => {
+    const position = video.currentTime;
+    const scheduled = retrier.schedule(() => {
+      player.unload();
+      player.detachMediaElement();
+      player.attachMediaElement(video);
+      player.load();
+      if (!isLive && position > 0) {
+        video.currentTime = position;
+      }
+      Promise.resolve(player.play()).catch(() => {});
+    });
+
+    if (!scheduled) {
+      console.error('[FLV] Fatal error, cannot recover:', reason);
+      onFatal?.(reason);
+    }
+  };
+
+  player.on(mpegts.Events.ERROR, (type: string, details: string) => {
+    console.error('[FLV] Error:', type, details);
+    recover(`${type}: ${details}`);
+  });
+
+  const handlePlaying = () => {
+    retrier.reset();
+  };
+  video.addEventListener('playing', handlePlaying);
+
+  player.attachMediaElement(video);
+  player.load();
+
+  return {
+    player,
+    destroy: () => {
+      retrier.cancel();
+      video.removeEventListener('playing', handlePlaying);
+      player.pause();
+      player.unload();
+      player.detachMediaElement();
+      player.destroy();
+    }
+  };
+}
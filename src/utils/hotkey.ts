@@ -0,0 +1,17 @@
+import type Artplayer from 'artplayer';
+
+// Artplayer 的 art.hotkey 会忽略按住 Shift/Alt/Ctrl/Meta 的按键，Shift 组合键改为监听 keydown 事件
+// 与 art.hotkey 相同：只在播放器获得焦点且没有在输入框中输入时生效，播放器销毁时自动移除
+export function addShiftHotkey(art: Artplayer, code: string, handler: (event: KeyboardEvent) => void): void {
+  art.on('keydown', (event) => {
+    if (!art.isFocus || event.code !== code || !event.shiftKey) return;
+    if (event.altKey || event.ctrlKey || event.metaKey) return;
+
+    const active = document.activeElement;
+    const editable = active?.getAttribute('contenteditable');
+    if (active && (active.tagName === 'INPUT' || active.tagName === 'TEXTAREA' || editable === '' || editable === 'true')) return;
+
+    event.preventDefault();
+    handler(event);
+  });
+}
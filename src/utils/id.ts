@@ -0,0 +1,7 @@
+// 随机 ID（会话、播放、一起看的成员），不支持 crypto.randomUUID 的环境（如非 HTTPS 页面）降级为时间戳加随机数
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
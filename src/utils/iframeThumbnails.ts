@@ -0,0 +1,267 @@
+import { applyRequestPolicy, type RequestPolicy } from './requestPolicy';
+import type { ThumbnailProvider } from './thumbnails';
+
+// 没有缩略图轨道时，从 HLS 的 I-frame playlist（EXT-X-I-FRAME-STREAM-INF）在本地生成低分辨率预览：
+// 下载关键帧所在的 TS 字节范围，提取 H.264 数据后用 WebCodecs 解码一帧并绘制到 canvas
+
+// 预览图宽度
+const THUMBNAIL_WIDTH = 160;
+// 最多缓存的预览图数量
+const MAX_CACHED = 200;
+
+const TS_PACKET_SIZE = 188;
+
+interface IFrameSegment {
+  start: number;
+  end: number;
+  url: string;
+  offset?: number;
+  length?: number;
+}
+
+function parseAttributes(line: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match;
+  while ((match = pattern.exec(line))) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
+
+// 在 master playlist 中选择码率最低的 H.264 I-frame playlist
+export function findIFramePlaylist(text: string, baseUrl: string): string | null {
+  const candidates = text
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('#EXT-X-I-FRAME-STREAM-INF:'))
+    .map(line => parseAttributes(line.slice(line.indexOf(':') + 1)))
+    .filter(attributes => attributes.URI && (!attributes.CODECS || attributes.CODECS.includes('avc1')))
+    .sort((a, b) => Number(a.BANDWIDTH || 0) - Number(b.BANDWIDTH || 0));
+
+  return candidates.length > 0 ? new URL(candidates[0].URI, baseUrl).href : null;
+}
+
+// 解析 I-frame media playlist，只支持 TS（有 EXT-X-MAP 的 fMP4 返回空列表）
+export function parseIFramePlaylist(text: string, baseUrl: string): IFrameSegment[] {
+  const segments: IFrameSegment[] = [];
+  let time = 0;
+  let duration = 0;
+  let range: { length: number; offset?: number } | null = null;
+  // 省略 offset 时接着同一文件上一段的末尾
+  const nextOffset = new Map<string, number>();
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#EXT-X-MAP')) {
+      return [];
+    } else if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice(8)) || 0;
+    } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+      const [length, offset] = line.slice(17).split('@');
+      range = { length: Number(length), offset: offset === undefined ? undefined : Number(offset) };
+    } else if (!line.startsWith('#')) {
+      const url = new URL(line, baseUrl).href;
+      const segment: IFrameSegment = { start: time, end: time + duration, url };
+      if (range) {
+        segment.offset = range.offset ?? nextOffset.get(url) ?? 0;
+        segment.length = range.length;
+        nextOffset.set(url, segment.offset + segment.length);
+      }
+      segments.push(segment);
+      time += duration;
+      duration = 0;
+      range = null;
+    }
+  }
+
+  return segments;
+}
+
+// 从 TS 数据中提取第一个视频流（PES stream_id 0xE0~0xEF）的 H.264 Annex B 数据
+// 关键帧的字节范围不一定包含 PAT/PMT，所以直接按 PES 头识别视频流
+export function extractVideoFromTs(data: Uint8Array): Uint8Array | null {
+  const start = data.indexOf(0x47);
+  if (start < 0) return null;
+
+  let videoPid = -1;
+  const chunks: Uint8Array[] = [];
+
+  for (let i = start; i + TS_PACKET_SIZE <= data.length; i += TS_PACKET_SIZE) {
+    if (data[i] !== 0x47) continue;
+
+    const unitStart = (data[i + 1] & 0x40) !== 0;
+    const pid = ((data[i + 1] & 0x1f) << 8) | data[i + 2];
+    const adaptation = (data[i + 3] >> 4) & 0x03;
+    if (adaptation === 0 || adaptation === 2) continue; // 没有负载
+
+    let offset = i + 4;
+    if (adaptation === 3) offset += 1 + data[i + 4];
+    if (offset >= i + TS_PACKET_SIZE) continue;
+
+    if (unitStart) {
+      const isPes = data[offset] === 0 && data[offset + 1] === 0 && data[offset + 2] === 1;
+      const streamId = data[offset + 3];
+      if (videoPid === -1 && isPes && streamId >= 0xe0 && streamId <= 0xef) {
+        videoPid = pid;
+      }
+      if (pid !== videoPid) continue;
+      // 跳过 PES 头
+      offset += 9 + data[offset + 8];
+    } else if (pid !== videoPid) {
+      continue;
+    }
+
+    if (offset < i + TS_PACKET_SIZE) {
+      chunks.push(data.subarray(offset, i + TS_PACKET_SIZE));
+    }
+  }
+
+  if (chunks.length === 0) return null;
+
+  const size = chunks.reduce((total, chunk) => total + chunk.length, 0);
+  const result = new Uint8Array(size);
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+}
+
+// 根据 SPS 生成 avc1.PPCCLL 形式的 codec 字符串
+export function getAvcCodec(annexB: Uint8Array): string | null {
+  for (let i = 0; i + 6 < annexB.length; i++) {
+    if (annexB[i] === 0 && annexB[i + 1] === 0 && annexB[i + 2] === 1 && (annexB[i + 3] & 0x1f) === 7) {
+      const hex = (value: number) => value.toString(16).padStart(2, '0');
+      return `avc1.${hex(annexB[i + 4])}${hex(annexB[i + 5])}${hex(annexB[i + 6])}`;
+    }
+  }
+  return null;
+}
+
+// 解码一个关键帧并缩小为 JPEG data URL
+async function decodeThumbnail(annexB: Uint8Array, codec: string): Promise<string | null> {
+  const frames: VideoFrame[] = [];
+  let decodeError: unknown = null;
+
+  const decoder = new VideoDecoder({
+    output: frame => frames.push(frame),
+    error: (e) => {
+      decodeError = e;
+    }
+  });
+
+  try {
+    decoder.configure({ codec, optimizeForLatency: true });
+    decoder.decode(new EncodedVideoChunk({ type: 'key', timestamp: 0, data: annexB }));
+    await decoder.flush();
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+  }
+
+  const [frame, ...rest] = frames;
+  rest.forEach(item => item.close());
+  if (!frame) {
+    if (decodeError) throw decodeError;
+    return null;
+  }
+
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = Math.round(THUMBNAIL_WIDTH * frame.displayHeight / frame.displayWidth);
+    canvas.getContext('2d')?.drawImage(frame, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } finally {
+    frame.close();
+  }
+}
+
+export function isIFrameThumbnailSupported(): boolean {
+  return typeof VideoDecoder !== 'undefined' && typeof EncodedVideoChunk !== 'undefined';
+}
+
+// 创建基于 I-frame playlist 的预览图来源；master playlist 中没有 I-frame playlist 时总是返回 null
+// policy 为播放器的请求策略，请求 playlist 和分片时同样使用
+export function createIFrameThumbnailProvider(masterUrl: string, policy?: RequestPolicy): ThumbnailProvider {
+  let loading: Promise<IFrameSegment[]> | null = null;
+  const cache = new Map<number, Promise<string | null>>();
+  // 同一时间只解码一帧，等待期间只保留最新的请求
+  let busy: Promise<unknown> = Promise.resolve();
+  let latest = 0;
+
+  const policyFetch = (url: string, kind: 'playlist' | 'segment', headers: Record<string, string> = {}) => {
+    const target = applyRequestPolicy(policy, url, kind);
+    return fetch(target.url, { headers: { ...target.headers, ...headers } });
+  };
+
+  const load = async (): Promise<IFrameSegment[]> => {
+    const master = await policyFetch(masterUrl, 'playlist');
+    if (!master.ok) return [];
+    const playlistUrl = findIFramePlaylist(await master.text(), master.url || masterUrl);
+    if (!playlistUrl) return [];
+
+    const response = await policyFetch(playlistUrl, 'playlist');
+    if (!response.ok) return [];
+    return parseIFramePlaylist(await response.text(), response.url || playlistUrl);
+  };
+
+  const generate = async (segment: IFrameSegment): Promise<string | null> => {
+    const headers: Record<string, string> = segment.length !== undefined
+      ? { Range: `bytes=${segment.offset}-${segment.offset! + segment.length - 1}` }
+      : {};
+    const response = await policyFetch(segment.url, 'segment', headers);
+    if (!response.ok) return null;
+
+    let data = new Uint8Array(await response.arrayBuffer());
+    // 服务器不支持 Range 时返回了整个文件
+    if (response.status === 200 && segment.length !== undefined) {
+      data = data.subarray(segment.offset, segment.offset! + segment.length);
+    }
+
+    const video = extractVideoFromTs(data);
+    const codec = video && getAvcCodec(video);
+    if (!video || !codec) return null;
+    return decodeThumbnail(video, codec);
+  };
+
+  return async (time) => {
+    if (!loading) {
+      loading = load().catch((e) => {
+        console.warn('[Thumbnails] Failed to load I-frame playlist:', e);
+        return [];
+      });
+    }
+
+    const segments = await loading;
+    const index = segments.findIndex(segment => time >= segment.start && time < segment.end);
+    if (index === -1) return null;
+
+    let image = cache.get(index);
+    if (!image) {
+      const request = ++latest;
+      const previous = busy;
+      image = previous.then(() => {
+        // 已经有更新的请求，跳过这一帧（不缓存，之后需要时再生成）
+        if (request !== latest) {
+          cache.delete(index);
+          return null;
+        }
+        return generate(segments[index]);
+      }).catch((e) => {
+        console.warn('[Thumbnails] Failed to generate thumbnail:', e);
+        return null;
+      });
+      busy = image;
+      cache.set(index, image);
+      if (cache.size > MAX_CACHED) {
+        cache.delete(cache.keys().next().value!);
+      }
+    }
+
+    const url = await image;
+    return url ? { url } : null;
+  };
+}
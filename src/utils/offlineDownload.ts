@@ -0,0 +1,138 @@
+// 离线下载：通过 Service Worker 下载整个 HLS 点播视频，进度通过 MessageChannel 推送
+
+export type DownloadStatus = 'downloading' | 'paused' | 'completed' | 'error' | 'deleted';
+
+export interface DownloadInfo {
+  url: string;
+  title?: string;
+  poster?: string;
+  maxHeight?: number;
+  status: DownloadStatus;
+  completed: number; // 已下载的资源数
+  total: number; // 资源总数（解析完 playlist 前为 0）
+  size: number; // 已下载的字节数
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface DownloadSource {
+  url: string;
+  title?: string;
+  poster?: string;
+  maxHeight?: number; // 下载不超过该分辨率的最高清晰度，不传则下载最高清晰度
+}
+
+interface DownloadProgressMessage {
+  type: 'DOWNLOAD_PROGRESS';
+  download: DownloadInfo | null;
+}
+
+interface DownloadResponse {
+  success: boolean;
+  error?: string;
+  downloads?: DownloadInfo[];
+}
+
+const REQUEST_TIMEOUT = 5000;
+
+function getController(): ServiceWorker | null {
+  return ('serviceWorker' in navigator && navigator.serviceWorker.controller) || null;
+}
+
+// Service Worker 接管页面后才能下载
+export function isOfflineDownloadSupported(): boolean {
+  return getController() !== null;
+}
+
+// 发送一次性请求并等待回复
+function request(message: Record<string, unknown>): Promise<DownloadResponse> {
+  const controller = getController();
+  if (!controller) {
+    return Promise.reject(new Error('Service Worker is not available'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => {
+      channel.port1.close();
+      reject(new Error('Service Worker did not respond'));
+    }, REQUEST_TIMEOUT);
+
+    channel.port1.onmessage = (event: MessageEvent<DownloadResponse>) => {
+      clearTimeout(timer);
+      channel.port1.close();
+      if (event.data.success) {
+        resolve(event.data);
+      } else {
+        reject(new Error(event.data.error || 'Unknown error'));
+      }
+    };
+
+    controller.postMessage(message, [channel.port2]);
+  });
+}
+
+// 发送消息并持续接收下载进度，返回取消订阅的函数
+function subscribe(
+  message: Record<string, unknown>,
+  onProgress: (download: DownloadInfo | null) => void,
+  onError?: (error: string) => void
+): () => void {
+  const controller = getController();
+  if (!controller) {
+    onError?.('Service Worker is not available');
+    return () => {};
+  }
+
+  const channel = new MessageChannel();
+  channel.port1.onmessage = (event: MessageEvent<DownloadProgressMessage | DownloadResponse>) => {
+    const data = event.data;
+    if ('type' in data && data.type === 'DOWNLOAD_PROGRESS') {
+      onProgress(data.download);
+    } else if ('success' in data && !data.success) {
+      onError?.(data.error || 'Unknown error');
+    }
+  };
+
+  controller.postMessage(message, [channel.port2]);
+  return () => channel.port1.close();
+}
+
+// 开始下载（已暂停或失败的下载会从断点继续）
+export function startDownload(
+  source: DownloadSource,
+  onProgress: (download: DownloadInfo | null) => void,
+  onError?: (error: string) => void
+): () => void {
+  return subscribe({ type: 'DOWNLOAD_START', ...source }, onProgress, onError);
+}
+
+// 监听某个视频的下载状态，没有下载记录时回调 null
+export function watchDownload(
+  url: string,
+  onProgress: (download: DownloadInfo | null) => void
+): () => void {
+  return subscribe({ type: 'DOWNLOAD_SUBSCRIBE', url }, onProgress);
+}
+
+export async function pauseDownload(url: string): Promise<void> {
+  await request({ type: 'DOWNLOAD_PAUSE', url });
+}
+
+// 取消下载或删除已下载的视频
+export async function deleteDownload(url: string): Promise<void> {
+  await request({ type: 'DOWNLOAD_DELETE', url });
+}
+
+export async function listDownloads(): Promise<DownloadInfo[]> {
+  if (!getController()) return [];
+  const response = await request({ type: 'DOWNLOAD_LIST' });
+  return response.downloads ?? [];
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
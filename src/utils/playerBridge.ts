@@ -0,0 +1,317 @@
+import type Artplayer from 'artplayer';
+import { parseStartTime } from './playerConfig';
+import type { SkipMarkers } from './skipMarkers';
+import type { SubtitleTrack } from './subtitle';
+
+// 父页面 <-> 播放器 的 postMessage 通信协议
+
+// 所有播放器发出的消息都带有该 source 标识
+export const MESSAGE_SOURCE = 'artplayer';
+// 通信协议版本，协议出现不兼容变更时递增
+export const PROTOCOL_VERSION = 1;
+
+// 父页面发给播放器的控制指令
+export type PlayerCommand =
+  | { command: 'play' }
+  | { command: 'pause' }
+  | { command: 'seek'; time: number }
+  | { command: 'setVolume'; volume?: number; muted?: boolean }
+  | { command: 'setPlaybackRate'; rate: number }
+  | {
+    command: 'load';
+    url: string;
+    title?: string;
+    poster?: string;
+    type?: string;
+    subtitles?: SubtitleTrack[];
+    backups?: string[];
+    thumbnails?: string;
+    chapters?: string | unknown[];
+    series?: string;
+    introStart?: number;
+    introEnd?: number;
+    outroStart?: number;
+    startTime?: number | string;
+  }
+  | { command: 'getState' };
+
+export type PlayerCommandMessage = PlayerCommand & {
+  type: 'PLAYER_COMMAND';
+  requestId?: string;
+  version?: number;
+};
+
+// 父页面发起的握手消息
+export interface PlayerHandshakeMessage {
+  type: 'PLAYER_HANDSHAKE';
+  version?: number;
+}
+
+// 切换视频时需要的源信息
+export interface PlayerSource {
+  url: string;
+  title?: string;
+  poster?: string;
+  type?: string;
+  subtitles?: SubtitleTrack[];
+  backups?: string[]; // 备用地址，当前地址无法播放时依次切换
+  thumbnails?: string; // 缩略图 VTT 轨道地址
+  chapters?: string; // 章节 WebVTT 地址或内联 JSON
+  series?: string; // 剧集 key，观众标记的片头/片尾按剧集保存
+  markers?: SkipMarkers; // 片头/片尾位置
+  startTime?: number; // 起播时间（秒），优先于观看记录
+}
+
+// 推送给父页面的播放状态快照
+export interface PlayerState {
+  url: string;
+  title: string;
+  currentTime: number;
+  duration: number;
+  buffered: number; // 当前播放位置之后已缓冲的秒数
+  paused: boolean;
+  ended: boolean;
+  volume: number;
+  muted: boolean;
+  playbackRate: number;
+}
+
+// 播放器主动推送的状态事件
+export type PlayerStateEvent = 'PLAYER_READY' | 'PLAYER_TIMEUPDATE' | 'PLAYER_PROGRESS' | 'PLAYER_ERROR';
+
+const COMMANDS: PlayerCommand['command'][] = [
+  'play', 'pause', 'seek', 'setVolume', 'setPlaybackRate', 'load', 'getState'
+];
+
+// 判断收到的数据是否为合法的控制指令
+export function isPlayerCommandMessage(data: unknown): data is PlayerCommandMessage {
+  if (!data || typeof data !== 'object') return false;
+  const message = data as Record<string, unknown>;
+  return message.type === 'PLAYER_COMMAND'
+    && typeof message.command === 'string'
+    && COMMANDS.includes(message.command as PlayerCommand['command']);
+}
+
+export function isHandshakeMessage(data: unknown): data is PlayerHandshakeMessage {
+  return !!data && typeof data === 'object' && (data as Record<string, unknown>).type === 'PLAYER_HANDSHAKE';
+}
+
+// 协议版本检查：未携带版本号视为当前版本
+export function isSupportedVersion(version: unknown): boolean {
+  return version === undefined || version === PROTOCOL_VERSION;
+}
+
+// 解析逗号分隔的来源列表，去掉末尾斜杠便于比较
+export function parseOriginList(value?: string | null): string[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+// 判断来源是否在允许列表中，支持 * 和 https://*.example.com 形式的通配
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+  return allowedOrigins.some(allowed => {
+    if (allowed === '*' || allowed === origin) return true;
+
+    const wildcard = allowed.match(/^(https?:\/\/)\*\.(.+)$/);
+    if (wildcard) {
+      const [, protocol, domain] = wildcard;
+      return origin.startsWith(protocol) && origin.slice(protocol.length).endsWith('.' + domain);
+    }
+    return false;
+  });
+}
+
+// 合并构建配置与 URL 参数中的来源列表
+// 构建配置（VITE_ALLOWED_ORIGINS）优先：URL 参数由嵌入方控制，只能在其基础上收窄范围
+// 两者都未配置时只允许与播放器同源的页面；允许任意来源需要明确配置 *
+export function resolveAllowedOrigins(fromParams: string[] = []): string[] {
+  const fromBuild = parseOriginList(import.meta.env.VITE_ALLOWED_ORIGINS);
+
+  if (fromBuild.length === 0) {
+    return fromParams.length > 0 ? fromParams : [window.location.origin];
+  }
+  if (fromParams.length === 0) {
+    return fromBuild;
+  }
+
+  const narrowed = fromParams.filter(origin => !origin.includes('*') && isOriginAllowed(origin, fromBuild));
+  if (narrowed.length === 0) {
+    console.warn('[Player] allowedOrigins param does not match build config, ignoring it');
+    return fromBuild;
+  }
+  return narrowed;
+}
+
+// 一个播放器与父页面的通信状态：允许的来源列表 + 握手后锁定的父页面来源
+export interface PlayerBridge {
+  readonly allowedOrigins: string[];
+  // 握手成功后锁定父页面来源，之后所有消息只发往该来源
+  acceptHandshake(origin: string): boolean;
+  // 获取已验证的父页面来源，未握手时返回 null
+  getVerifiedOrigin(): string | null;
+  // 向父页面发送消息
+  // requireHandshake: 携带播放状态等敏感信息的消息只在握手完成后发送
+  post(message: Record<string, unknown>, requireHandshake?: boolean): void;
+  // 推送状态事件到父页面
+  postState(art: Artplayer, type: PlayerStateEvent, extra?: Record<string, unknown>): void;
+}
+
+// 每个播放器各自创建，同一页面的多个播放器分别握手，互不影响
+export function createPlayerBridge(allowedOrigins: string[]): PlayerBridge {
+  let targetOrigin: string | null = null;
+
+  const post = (message: Record<string, unknown>, requireHandshake = false) => {
+    const payload = { ...message, source: MESSAGE_SOURCE, version: PROTOCOL_VERSION };
+    let targets: string[];
+
+    if (targetOrigin) {
+      targets = [targetOrigin];
+    } else if (requireHandshake) {
+      return;
+    } else {
+      // 未握手时只发往明确配置的来源（浏览器会丢弃来源不匹配的消息），明确配置 * 时广播
+      targets = allowedOrigins.includes('*')
+        ? ['*']
+        : allowedOrigins.filter(origin => !origin.includes('*'));
+    }
+
+    for (const target of targets) {
+      try {
+        window.parent.postMessage(payload, target);
+      } catch (e) {
+        console.warn('[Player] Failed to communicate with parent window:', e);
+      }
+    }
+  };
+
+  return {
+    allowedOrigins,
+    acceptHandshake(origin) {
+      if (!isOriginAllowed(origin, allowedOrigins)) {
+        console.warn('[Player] Rejected handshake from untrusted origin:', origin);
+        return false;
+      }
+      targetOrigin = origin;
+      return true;
+    },
+    getVerifiedOrigin: () => targetOrigin,
+    post,
+    postState(art, type, extra) {
+      post({ type, state: getPlayerState(art), ...extra }, true);
+    }
+  };
+}
+
+// 计算当前播放位置之后的缓冲时长
+function getBufferAhead(video: HTMLVideoElement): number {
+  const { buffered, currentTime } = video;
+  for (let i = 0; i < buffered.length; i++) {
+    if (buffered.start(i) <= currentTime && currentTime <= buffered.end(i)) {
+      return buffered.end(i) - currentTime;
+    }
+  }
+  return 0;
+}
+
+// 获取播放器当前状态
+export function getPlayerState(art: Artplayer): PlayerState {
+  const video = art.video;
+  return {
+    url: art.url,
+    title: art.title || '',
+    currentTime: art.currentTime,
+    duration: Number.isFinite(art.duration) ? art.duration : 0,
+    buffered: getBufferAhead(video),
+    paused: video.paused,
+    ended: video.ended,
+    volume: art.volume,
+    muted: art.muted,
+    playbackRate: art.playbackRate
+  };
+}
+
+function assertNumber(value: unknown, name: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Invalid "${name}": expected a finite number`);
+  }
+  return value;
+}
+
+// 片头/片尾时间是可选的，无效值忽略
+function toMarkerTime(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+// 指令的执行结果：load 需要重新创建播放器，只确认收到指令（返回 null），新视频就绪时推送 PLAYER_READY；
+// 其他指令返回执行后的播放状态
+export type PlayerCommandResult<C extends PlayerCommand = PlayerCommand> = C extends { command: 'load' } ? null : PlayerState;
+
+// 执行控制指令，返回需要回传给父页面的数据
+export async function executePlayerCommand<C extends PlayerCommand>(
+  art: Artplayer,
+  message: C,
+  onLoad?: (source: PlayerSource) => void
+): Promise<PlayerCommandResult<C>> {
+  switch (message.command) {
+    case 'play':
+      await art.play();
+      break;
+    case 'pause':
+      art.pause();
+      break;
+    case 'seek':
+      art.seek = assertNumber(message.time, 'time');
+      break;
+    case 'setVolume':
+      if (message.volume !== undefined) {
+        art.volume = Math.min(1, Math.max(0, assertNumber(message.volume, 'volume')));
+      }
+      if (message.muted !== undefined) {
+        art.muted = Boolean(message.muted);
+      }
+      break;
+    case 'setPlaybackRate':
+      art.playbackRate = assertNumber(message.rate, 'rate');
+      break;
+    case 'load':
+      if (typeof message.url !== 'string' || !message.url) {
+        throw new Error('Invalid "url": expected a non-empty string');
+      }
+      if (!onLoad) {
+        throw new Error('Loading a new source is not supported');
+      }
+      onLoad({
+        url: message.url,
+        title: message.title,
+        poster: message.poster,
+        type: message.type,
+        subtitles: Array.isArray(message.subtitles)
+          ? message.subtitles.filter(track => track && typeof track.url === 'string')
+          : undefined,
+        backups: Array.isArray(message.backups)
+          ? message.backups.filter(backup => typeof backup === 'string' && backup)
+          : undefined,
+        thumbnails: typeof message.thumbnails === 'string' ? message.thumbnails : undefined,
+        // 章节可以直接传数组，统一转成内联 JSON
+        chapters: typeof message.chapters === 'string'
+          ? message.chapters
+          : Array.isArray(message.chapters) ? JSON.stringify(message.chapters) : undefined,
+        series: typeof message.series === 'string' ? message.series : undefined,
+        markers: {
+          introStart: toMarkerTime(message.introStart),
+          introEnd: toMarkerTime(message.introEnd),
+          outroStart: toMarkerTime(message.outroStart)
+        },
+        // 与 t 参数相同，支持 90、1m30s 和 1:30
+        startTime: parseStartTime(message.startTime)
+      });
+      // 此时 art 仍是旧视频的播放器，不返回它的状态
+      return null as PlayerCommandResult<C>;
+    case 'getState':
+      break;
+  }
+  return getPlayerState(art) as PlayerCommandResult<C>;
+}
@@ -0,0 +1,433 @@
+import { mergeRequestPolicy, parseRequestPolicy, type RequestPolicy } from './requestPolicy';
+import type { CachePolicyUpdate } from './serviceWorker';
+
+// 播放器配置：主题、控件开关、快捷键、hls.js 缓冲、起播时间、静音、循环、音量、请求策略、播放质量上报、触屏手势和 Service Worker 缓存策略
+// 来源（后者覆盖前者）：默认值 < 预设（默认为 public/presets/<name>.json）< base64 编码的 config 参数 < 单独的查询参数
+// 无效的值和未知的配置项会被忽略并给出警告，不影响播放
+
+export interface PlayerControls {
+  fullscreen: boolean;
+  fullscreenWeb: boolean;
+  pip: boolean;
+  screenshot: boolean;
+  setting: boolean;
+  playbackRate: boolean;
+  aspectRatio: boolean;
+  flip: boolean;
+  rotate: boolean;
+  autoMini: boolean; // 滚动出可视区域时显示迷你播放器
+}
+
+export interface HlsBufferConfig {
+  maxBufferLength: number; // 预缓冲时长（秒）
+  maxMaxBufferLength: number; // 缓冲时长上限（秒）
+  maxBufferSize: number; // 缓冲大小上限（MB）
+  maxBufferHole: number; // 缓冲区间隙容忍度（秒）
+  backBufferLength: number; // 保留的已播放内容（秒）
+}
+
+export interface AnalyticsConfig {
+  beacon?: string; // 播放质量数据的上报地址，未设置时不收集任何数据
+  sampleRate: number; // 采样率 0~1，按会话抽样
+  flushInterval: number; // 批量上报的间隔（秒）
+}
+
+export interface GestureConfig {
+  enabled: boolean; // 触屏手势总开关，主要输入为鼠标等精确指针的设备上不启用
+  doubleTap: boolean; // 双击左/右侧快退/快进
+  seekStep: number; // 双击快退/快进的秒数
+  volume: boolean; // 右半边上下滑动调节音量
+  brightness: boolean; // 左半边上下滑动调节亮度
+  scrub: boolean; // 左右滑动调节进度
+  longPress: boolean; // 长按临时倍速播放
+  longPressRate: number; // 长按时的倍速
+}
+
+// Service Worker 的缓存策略，只包含配置了的项（保存在 Service Worker 中，对同一站点的所有页面生效）
+export interface CacheConfig {
+  maxSize?: number; // 在线播放缓存上限（MB）
+  expiry?: number; // 缓存过期时间（分钟）
+  prefetchSegments?: number; // 预加载已缓冲位置之后的分片数，0 表示不预加载
+  extensions?: string[]; // 需要缓存的文件扩展名，如 .m3u8、.ts
+}
+
+export interface PlayerConfig {
+  theme: string; // 主题色，#rgb / #rrggbb
+  controls: PlayerControls;
+  hotkey: boolean;
+  hls: HlsBufferConfig;
+  startTime?: number; // 起播时间（秒），优先于观看记录
+  muted: boolean;
+  loop: boolean;
+  volume?: number; // 0~1，未指定时使用观众上次的音量
+  request?: RequestPolicy; // 请求头、token 参数和地址改写
+  analytics: AnalyticsConfig;
+  gestures: GestureConfig;
+  cache: CacheConfig;
+}
+
+export const DEFAULT_PLAYER_CONFIG: PlayerConfig = {
+  theme: '#00a1d6',
+  controls: {
+    fullscreen: true,
+    fullscreenWeb: true,
+    pip: true,
+    screenshot: true,
+    setting: true,
+    playbackRate: true,
+    aspectRatio: true,
+    flip: true,
+    rotate: true,
+    autoMini: true
+  },
+  hotkey: true,
+  hls: {
+    maxBufferLength: 60,
+    maxMaxBufferLength: 120,
+    maxBufferSize: 50,
+    maxBufferHole: 0.5,
+    backBufferLength: 10
+  },
+  muted: false,
+  loop: false,
+  analytics: {
+    sampleRate: 1,
+    flushInterval: 30
+  },
+  gestures: {
+    enabled: true,
+    doubleTap: true,
+    seekStep: 10,
+    volume: true,
+    brightness: true,
+    scrub: true,
+    longPress: true,
+    longPressRate: 2
+  },
+  cache: {}
+};
+
+// 解析后的配置片段，只包含有效的值
+export interface PlayerConfigPatch {
+  theme?: string;
+  controls?: Partial<PlayerControls>;
+  hotkey?: boolean;
+  hls?: Partial<HlsBufferConfig>;
+  startTime?: number;
+  muted?: boolean;
+  loop?: boolean;
+  volume?: number;
+  request?: RequestPolicy;
+  analytics?: Partial<AnalyticsConfig>;
+  gestures?: Partial<GestureConfig>;
+  cache?: CacheConfig;
+}
+
+// 单个配置项的解析函数，无效时返回 undefined
+type FieldParser = (value: unknown) => unknown;
+
+interface FieldSchema {
+  parse: FieldParser;
+  expected: string; // 警告中说明期望的值
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === '1' || value === '') return true;
+  if (value === 'false' || value === '0') return false;
+  return undefined;
+}
+
+function numberInRange(min: number, max: number): FieldParser {
+  return (value) => {
+    if (typeof value === 'string' && value.trim() === '') return undefined;
+    const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+    return Number.isFinite(number) && number >= min && number <= max ? number : undefined;
+  };
+}
+
+// 查询参数中的 # 需要编码，所以也接受不带 # 的十六进制颜色
+function parseColor(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  return match ? `#${match[1].toLowerCase()}` : undefined;
+}
+
+// 上报地址：http(s) 地址，相对地址按当前页面解析
+function parseBeaconUrl(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  try {
+    const url = new URL(value.trim(), window.location.href);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// 文件扩展名列表：数组或逗号分隔的字符串，统一为小写并带点号
+function parseExtensionList(value: unknown): string[] | undefined {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+  if (!items || items.some(item => typeof item !== 'string')) return undefined;
+  const extensions = (items as string[]).map(item => item.trim().toLowerCase()).filter(Boolean);
+  if (extensions.length === 0 || extensions.some(ext => !/^\.?[a-z0-9]+$/.test(ext))) return undefined;
+  return extensions.map(ext => ext.startsWith('.') ? ext : `.${ext}`);
+}
+
+function integerInRange(min: number, max: number): FieldParser {
+  const parse = numberInRange(min, max);
+  return (value) => {
+    const number = parse(value);
+    return typeof number === 'number' && Number.isInteger(number) ? number : undefined;
+  };
+}
+
+// 起播时间：秒数（90）、1m30s / 1h2m3s 或 1:30 / 1:02:03
+export function parseStartTime(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+
+  const text = value.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(text)) return Number(text);
+
+  const units = text.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s)?$/);
+  if (units && text) {
+    return Number(units[1] || 0) * 3600 + Number(units[2] || 0) * 60 + Number(units[3] || 0);
+  }
+
+  const clock = text.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+  if (clock) {
+    return Number(clock[1] || 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+  }
+  return undefined;
+}
+
+const BOOLEAN: FieldSchema = { parse: parseBoolean, expected: 'true or false' };
+
+// 配置项（嵌套的对象用点号展开）
+const SCHEMA: Record<string, FieldSchema> = {
+  theme: { parse: parseColor, expected: 'a hex colour such as #00a1d6' },
+  hotkey: BOOLEAN,
+  startTime: { parse: parseStartTime, expected: 'seconds, 1m30s or 1:30' },
+  muted: BOOLEAN,
+  loop: BOOLEAN,
+  volume: { parse: numberInRange(0, 1), expected: 'a number between 0 and 1' },
+  ...Object.fromEntries(
+    Object.keys(DEFAULT_PLAYER_CONFIG.controls).map(name => [`controls.${name}`, BOOLEAN])
+  ),
+  'hls.maxBufferLength': { parse: numberInRange(1, 600), expected: 'seconds between 1 and 600' },
+  'hls.maxMaxBufferLength': { parse: numberInRange(1, 1800), expected: 'seconds between 1 and 1800' },
+  'hls.maxBufferSize': { parse: numberInRange(1, 1000), expected: 'megabytes between 1 and 1000' },
+  'hls.maxBufferHole': { parse: numberInRange(0, 10), expected: 'seconds between 0 and 10' },
+  'hls.backBufferLength': { parse: numberInRange(0, 600), expected: 'seconds between 0 and 600' },
+  'analytics.beacon': { parse: parseBeaconUrl, expected: 'an http(s) URL' },
+  'analytics.sampleRate': { parse: numberInRange(0, 1), expected: 'a number between 0 and 1' },
+  'analytics.flushInterval': { parse: numberInRange(5, 600), expected: 'seconds between 5 and 600' },
+  'gestures.enabled': BOOLEAN,
+  'gestures.doubleTap': BOOLEAN,
+  'gestures.seekStep': { parse: numberInRange(1, 120), expected: 'seconds between 1 and 120' },
+  'gestures.volume': BOOLEAN,
+  'gestures.brightness': BOOLEAN,
+  'gestures.scrub': BOOLEAN,
+  'gestures.longPress': BOOLEAN,
+  'gestures.longPressRate': { parse: numberInRange(1.25, 4), expected: 'a rate between 1.25 and 4' },
+  'cache.maxSize': { parse: numberInRange(10, 10000), expected: 'megabytes between 10 and 10000' },
+  'cache.expiry': { parse: numberInRange(1, 10080), expected: 'minutes between 1 and 10080' },
+  'cache.prefetchSegments': { parse: integerInRange(0, 20), expected: 'an integer between 0 and 20' },
+  'cache.extensions': { parse: parseExtensionList, expected: 'file extensions such as .m3u8,.ts' },
+  request: {
+    parse: parseRequestPolicy,
+    expected: 'an object with string maps "headers" and "query", "rewrites" rules ({ pattern, replacement, types }) and a "scope" regex'
+  }
+};
+
+// 查询参数的别名
+const PARAM_ALIASES: Record<string, string> = {
+  t: 'startTime',
+  start: 'startTime',
+  beacon: 'analytics.beacon',
+  gestures: 'gestures.enabled'
+};
+
+// 读取配置的全部查询参数名（<re-player> 元素据此把属性映射为参数）
+export const CONFIG_PARAM_NAMES = [
+  ...Object.keys(SCHEMA).filter(key => !key.startsWith('controls.') && key !== 'request'),
+  ...Object.keys(PARAM_ALIASES),
+  'controls', 'header', 'token', 'preset', 'config'
+];
+
+// 把嵌套对象展开为 { 'hls.maxBufferLength': 30 } 形式（值本身是对象的配置项如 request 不展开）
+function flatten(value: Record<string, unknown>, prefix = ''): [string, unknown][] {
+  return Object.entries(value).flatMap(([key, item]) =>
+    item && typeof item === 'object' && !Array.isArray(item) && !(`${prefix}${key}` in SCHEMA)
+      ? flatten(item as Record<string, unknown>, `${prefix}${key}.`)
+      : [[`${prefix}${key}`, item] as [string, unknown]]
+  );
+}
+
+// 按 schema 校验展开后的配置项，source 用于警告中说明来源
+function validateEntries(entries: [string, unknown][], source: string, warnings: string[]): PlayerConfigPatch {
+  const patch: Record<string, Record<string, unknown> | unknown> = {};
+
+  for (const [key, value] of entries) {
+    const field = SCHEMA[key];
+    if (!field) {
+      warnings.push(`Unknown option "${key}" in ${source} was ignored`);
+      continue;
+    }
+
+    const parsed = field.parse(value);
+    if (parsed === undefined) {
+      warnings.push(`Invalid value ${JSON.stringify(value)} for "${key}" in ${source}, expected ${field.expected}`);
+      continue;
+    }
+
+    const [group, name] = key.split('.');
+    if (name) {
+      patch[group] = { ...(patch[group] as Record<string, unknown> | undefined), [name]: parsed };
+    } else {
+      patch[key] = parsed;
+    }
+  }
+
+  return patch as PlayerConfigPatch;
+}
+
+// 校验 JSON 配置（预设文件或 config 参数）
+export function validatePlayerConfig(value: unknown, source: string, warnings: string[]): PlayerConfigPatch {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    warnings.push(`${source} must be a JSON object`);
+    return {};
+  }
+  return validateEntries(flatten(value as Record<string, unknown>), source, warnings);
+}
+
+// 读取单独的查询参数：theme、hotkey、muted、loop、volume、t / start，
+// hls.maxBufferLength 等缓冲参数，controls=-pip,-screenshot 形式的控件开关（- 表示关闭），
+// 以及可重复的 header=Name: value 请求头和 token=name=value 查询参数
+export function parseConfigParams(params: URLSearchParams, warnings: string[]): PlayerConfigPatch {
+  const entries: [string, unknown][] = [];
+  const headers: Record<string, string> = {};
+  const query: Record<string, string> = {};
+
+  for (const [name, value] of params) {
+    const key = PARAM_ALIASES[name] ?? name;
+    if (key === 'header' || key === 'token') {
+      const separator = value.indexOf(key === 'header' ? ':' : '=');
+      const field = value.slice(0, separator).trim();
+      if (separator <= 0 || !field) {
+        warnings.push(`Invalid value "${value}" for "${key}" in URL parameters, expected ${key === 'header' ? 'Name: value' : 'name=value'}`);
+      } else if (key === 'header') {
+        headers[field] = value.slice(separator + 1).trim();
+      } else {
+        query[field] = value.slice(separator + 1);
+      }
+    } else if (key === 'controls') {
+      for (const item of value.split(',').map(part => part.trim()).filter(Boolean)) {
+        const enabled = !item.startsWith('-');
+        entries.push([`controls.${item.replace(/^[-+]/, '')}`, enabled]);
+      }
+    } else if (key in SCHEMA && !key.startsWith('controls.')) {
+      entries.push([key, value]);
+    }
+  }
+
+  if (Object.keys(headers).length > 0 || Object.keys(query).length > 0) {
+    entries.push(['request', { headers, query }]);
+  }
+
+  return validateEntries(entries, 'URL parameters', warnings);
+}
+
+// config 参数：base64（或 base64url）编码的 JSON
+export function decodeConfigParam(value: string, warnings: string[]): PlayerConfigPatch {
+  try {
+    const base64 = value.trim().replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, '=');
+    const bytes = Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+    return validatePlayerConfig(JSON.parse(new TextDecoder().decode(bytes)), 'the config parameter', warnings);
+  } catch {
+    warnings.push('The config parameter is not valid base64-encoded JSON and was ignored');
+    return {};
+  }
+}
+
+// 预设所在的目录：应用部署在子路径时跟随 Vite 的 base；作为组件库嵌入其他页面时由调用方指定
+export const DEFAULT_PRESET_BASE_URL = `${import.meta.env.BASE_URL}presets/`;
+
+// 下载 <presetBaseUrl>/<name>.json（默认 public/presets/<name>.json），相对地址按当前页面解析
+export async function loadPreset(name: string, warnings: string[], presetBaseUrl = DEFAULT_PRESET_BASE_URL): Promise<PlayerConfigPatch> {
+  if (!/^[\w-]+$/.test(name)) {
+    warnings.push(`Invalid preset name "${name}"`);
+    return {};
+  }
+
+  // 地址无效、网络错误和 CORS 失败与 JSON 格式错误分开提示
+  let response: Response;
+  try {
+    const base = new URL(presetBaseUrl.endsWith('/') ? presetBaseUrl : `${presetBaseUrl}/`, window.location.href);
+    response = await fetch(new URL(`${name}.json`, base));
+  } catch (e) {
+    warnings.push(`Preset "${name}" could not be loaded (${e instanceof Error ? e.message : String(e)})`);
+    return {};
+  }
+  if (!response.ok) {
+    warnings.push(`Preset "${name}" could not be loaded (HTTP ${response.status})`);
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    warnings.push(`Preset "${name}" is not valid JSON`);
+    return {};
+  }
+  return validatePlayerConfig(data, `preset "${name}"`, warnings);
+}
+
+export function mergePlayerConfig(base: PlayerConfig, ...patches: PlayerConfigPatch[]): PlayerConfig {
+  return patches.reduce<PlayerConfig>((config, patch) => ({
+    ...config,
+    ...patch,
+    controls: { ...config.controls, ...patch.controls },
+    hls: { ...config.hls, ...patch.hls },
+    analytics: { ...config.analytics, ...patch.analytics },
+    gestures: { ...config.gestures, ...patch.gestures },
+    cache: { ...config.cache, ...patch.cache },
+    request: mergeRequestPolicy(config.request, patch.request)
+  }), base);
+}
+
+// 按优先级合并所有来源的配置
+export async function resolvePlayerConfig(
+  params: URLSearchParams,
+  presetBaseUrl?: string
+): Promise<{ config: PlayerConfig; warnings: string[] }> {
+  const warnings: string[] = [];
+  const preset = params.get('preset');
+  const encoded = params.get('config');
+
+  const patches = [
+    preset ? await loadPreset(preset, warnings, presetBaseUrl) : {},
+    encoded ? decodeConfigParam(encoded, warnings) : {},
+    parseConfigParams(params, warnings)
+  ];
+  const config = mergePlayerConfig(DEFAULT_PLAYER_CONFIG, ...patches);
+
+  if (config.hls.maxMaxBufferLength < config.hls.maxBufferLength) {
+    warnings.push('"hls.maxMaxBufferLength" is smaller than "hls.maxBufferLength" and was raised to match');
+    config.hls = { ...config.hls, maxMaxBufferLength: config.hls.maxBufferLength };
+  }
+
+  return { config, warnings };
+}
+
+// 转换为 Service Worker 的缓存策略（字节、毫秒），没有配置缓存策略时返回 null
+export function toCachePolicyUpdate(cache: CacheConfig): CachePolicyUpdate | null {
+  const policy: CachePolicyUpdate = {};
+  if (cache.maxSize !== undefined) policy.maxCacheSize = Math.round(cache.maxSize * 1024 * 1024);
+  if (cache.expiry !== undefined) policy.cacheExpiry = Math.round(cache.expiry * 60 * 1000);
+  if (cache.prefetchSegments !== undefined) policy.prefetchSegments = cache.prefetchSegments;
+  if (cache.extensions !== undefined) policy.cacheableExtensions = cache.extensions;
+  return Object.keys(policy).length > 0 ? policy : null;
+}
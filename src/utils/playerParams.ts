@@ -0,0 +1,103 @@
+import { parseOriginList } from './playerBridge';
+import { parseMarkerTime, type SkipMarkers } from './skipMarkers';
+import { parseSubtitleParam, type SubtitleTrack } from './subtitle';
+import { parseSyncRole, parseSyncServer, type SyncRole } from './sync';
+
+// 播放器参数：iframe 页面读取地址栏的查询参数，<re-player> 元素读取同名的属性
+// 主题、控件、缓冲等配置项由 resolvePlayerConfig 从同一组参数中解析
+
+export interface PlayerParams {
+  url: string | null;
+  poster?: string;
+  title?: string;
+  type?: string;
+  autoplay?: boolean;
+  enableIframeFullscreen?: boolean;
+  allowedOrigins?: string[];
+  subtitles?: SubtitleTrack[];
+  backups?: string[];
+  thumbnails?: string;
+  chapters?: string;
+  playlist?: string;
+  series?: string;
+  markers?: SkipMarkers;
+  autoSkip?: boolean;
+  quality?: string;
+  audioLang?: string;
+  subLang?: string;
+  isLive?: boolean;
+  lowLatency?: boolean;
+  latency?: number;
+  room?: string;
+  syncServer?: string;
+  syncRole?: SyncRole;
+}
+
+// parsePlayerParams 读取的参数名，subtitle 和 backup 可以重复
+export const PLAYER_PARAM_NAMES = [
+  'url', 'poster', 'title', 'type', 'quality', 'audioLang', 'subLang', 'live', 'lowLatency', 'latency',
+  'autoplay', 'enableIframeFullscreen', 'allowedOrigins', 'subtitle', 'backup', 'thumbnails', 'chapters',
+  'playlist', 'series', 'introStart', 'introEnd', 'outroStart', 'autoSkip',
+  'room', 'syncServer', 'syncRole'
+];
+
+// 生成打开播放器的查询字符串（与 parsePlayerParams 读取的参数一致）
+export function buildPlayerSearch(source: { url: string; title?: string; poster?: string; type?: string }): string {
+  const params = new URLSearchParams({ url: source.url });
+  if (source.title) params.set('title', source.title);
+  if (source.poster) params.set('poster', source.poster);
+  if (source.type) params.set('type', source.type);
+  return `?${params.toString()}`;
+}
+
+function parseSyncServerParam(value: string | null): string | undefined {
+  const server = parseSyncServer(value);
+  if (value && !server) {
+    console.warn('[Sync] syncServer must be a ws:// or wss:// URL:', value);
+  }
+  return server;
+}
+
+export function parsePlayerParams(params: URLSearchParams): PlayerParams {
+  return {
+    url: params.get('url'),
+    poster: params.get('poster') || undefined,
+    title: params.get('title') || undefined,
+    type: params.get('type') || undefined,
+    quality: params.get('quality') || undefined,
+    audioLang: params.get('audioLang') || undefined,
+    subLang: params.get('subLang') || undefined,
+    isLive: params.get('live') === 'true',
+    lowLatency: params.get('lowLatency') === 'true',
+    // 直播目标延迟（秒）
+    latency: Number(params.get('latency')) > 0 ? Number(params.get('latency')) : undefined,
+    autoplay: params.get('autoplay') !== 'false',
+    enableIframeFullscreen: params.get('enableIframeFullscreen') !== 'false',
+    allowedOrigins: parseOriginList(params.get('allowedOrigins')),
+    // 可重复传入多个 subtitle 参数，格式：url|label|lang
+    subtitles: params.getAll('subtitle')
+      .map(parseSubtitleParam)
+      .filter((track): track is SubtitleTrack => track !== null),
+    // 可重复传入多个 backup 参数，主地址失败后依次切换
+    backups: params.getAll('backup').filter(Boolean),
+    // 缩略图 VTT 轨道（雪碧图 #xywh=）
+    thumbnails: params.get('thumbnails') || undefined,
+    // 章节：WebVTT 地址或内联 JSON
+    chapters: params.get('chapters') || undefined,
+    // 播放列表：JSON 或扩展 M3U 的地址，或内联 JSON
+    playlist: params.get('playlist') || undefined,
+    series: params.get('series') || undefined,
+    // 片头/片尾位置（秒）
+    markers: {
+      introStart: parseMarkerTime(params.get('introStart')),
+      introEnd: parseMarkerTime(params.get('introEnd')),
+      outroStart: parseMarkerTime(params.get('outroStart'))
+    },
+    // 未指定时使用观众上次在设置中的选择
+    autoSkip: params.has('autoSkip') ? params.get('autoSkip') === 'true' : undefined,
+    // 一起看：同一房间的播放器同步播放进度，指定 syncServer 时跨设备同步
+    room: params.get('room') || undefined,
+    syncServer: parseSyncServerParam(params.get('syncServer')),
+    syncRole: parseSyncRole(params.get('syncRole'))
+  };
+}
\ No newline at end of file
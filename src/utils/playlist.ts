@@ -0,0 +1,150 @@
+import { parseSubtitleParam, type SubtitleTrack } from './subtitle';
+
+// 播放列表（剧集）：JSON 列表或扩展 M3U（#EXTM3U + #EXTINF）
+
+export interface PlaylistEntry {
+  url: string;
+  title?: string;
+  poster?: string;
+  type?: string;
+  subtitles?: SubtitleTrack[];
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// 字幕可以是 { url, label, lang } 对象，也可以是与 subtitle 参数相同的 url|label|lang 字符串
+function parseSubtitles(value: unknown): SubtitleTrack[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const tracks = value
+    .map((item, index) => {
+      if (typeof item === 'string') return parseSubtitleParam(item, index);
+      if (item && typeof item === 'object' && typeof item.url === 'string' && item.url) {
+        return {
+          url: item.url,
+          label: optionalString(item.label) ?? optionalString(item.lang) ?? `Subtitle ${index + 1}`,
+          lang: optionalString(item.lang)
+        };
+      }
+      return null;
+    })
+    .filter((track): track is SubtitleTrack => track !== null);
+  return tracks.length > 0 ? tracks : undefined;
+}
+
+// 相对地址按播放列表文件的地址解析
+function resolveUrl(url: string, baseUrl?: string): string {
+  try {
+    return baseUrl ? new URL(url, baseUrl).href : url;
+  } catch {
+    return url;
+  }
+}
+
+// 支持 [{ "url": "...", "title": "..." }, "https://..."]，也支持 { "entries": [...] }
+export function parsePlaylistJson(value: unknown, baseUrl?: string): PlaylistEntry[] {
+  const items = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object' && Array.isArray((value as { entries?: unknown }).entries)
+      ? (value as { entries: unknown[] }).entries
+      : null;
+  if (!items) {
+    throw new Error('Playlist JSON must be an array of entries');
+  }
+
+  const entries: PlaylistEntry[] = [];
+  for (const item of items) {
+    if (typeof item === 'string' && item.trim()) {
+      entries.push({ url: resolveUrl(item.trim(), baseUrl) });
+      continue;
+    }
+    const url = item && typeof item === 'object' ? optionalString(item.url) : undefined;
+    if (!url) continue;
+
+    const subtitles = parseSubtitles(item.subtitles);
+    entries.push({
+      url: resolveUrl(url, baseUrl),
+      title: optionalString(item.title),
+      poster: optionalString(item.poster),
+      type: optionalString(item.type),
+      ...(subtitles ? { subtitles: subtitles.map(track => ({ ...track, url: resolveUrl(track.url, baseUrl) })) } : {})
+    });
+  }
+  return entries;
+}
+
+// 解析 #EXTINF 中的 key="value" 属性
+function parseExtInfAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w-]+)="([^"]*)"/g;
+  let match;
+  while ((match = pattern.exec(text))) {
+    attributes[match[1].toLowerCase()] = match[2];
+  }
+  return attributes;
+}
+
+// 扩展 M3U：#EXTINF:-1 tvg-logo="poster.jpg" type="hls" subtitle="sub.vtt|English|en",标题
+export function parseExtM3u(text: string, baseUrl?: string): PlaylistEntry[] {
+  const entries: PlaylistEntry[] = [];
+  let info: { title?: string; attributes: Record<string, string> } | null = null;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#EXTINF:')) {
+      const body = line.slice(8);
+      // 标题在最后一个不在引号中的逗号之后
+      const comma = body.search(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+      info = {
+        title: comma >= 0 ? optionalString(body.slice(comma + 1)) : undefined,
+        attributes: parseExtInfAttributes(comma >= 0 ? body.slice(0, comma) : body)
+      };
+    } else if (!line.startsWith('#')) {
+      const attributes = info?.attributes ?? {};
+      const subtitle = attributes.subtitle ? parseSubtitleParam(attributes.subtitle, 0) : null;
+      entries.push({
+        url: resolveUrl(line, baseUrl),
+        title: info?.title,
+        poster: optionalString(attributes['tvg-logo'] ?? attributes.logo ?? attributes.poster),
+        type: optionalString(attributes.type),
+        ...(subtitle ? { subtitles: [{ ...subtitle, url: resolveUrl(subtitle.url, baseUrl) }] } : {})
+      });
+      info = null;
+    }
+  }
+  return entries;
+}
+
+function parsePlaylistText(text: string, baseUrl?: string): PlaylistEntry[] {
+  const trimmed = text.trimStart();
+  // HLS playlist 也以 #EXTM3U 开头，应该作为 url 参数播放
+  if (/#EXT-X-(STREAM-INF|TARGETDURATION)/.test(trimmed)) {
+    throw new Error('This is an HLS stream, not a playlist of videos');
+  }
+  return trimmed.startsWith('[') || trimmed.startsWith('{')
+    ? parsePlaylistJson(JSON.parse(trimmed), baseUrl)
+    : parseExtM3u(trimmed, baseUrl);
+}
+
+// playlist 参数：以 [ 开头时按内联 JSON 解析，否则作为 URL 下载（内容为 JSON 或扩展 M3U）
+export async function loadPlaylist(value: string): Promise<PlaylistEntry[]> {
+  const trimmed = value.trim();
+  let entries: PlaylistEntry[];
+  if (trimmed.startsWith('[')) {
+    entries = parsePlaylistText(trimmed);
+  } else {
+    const response = await fetch(trimmed);
+    if (!response.ok) {
+      throw new Error(`Failed to load playlist: HTTP ${response.status}`);
+    }
+    entries = parsePlaylistText(await response.text(), response.url || trimmed);
+  }
+
+  if (entries.length === 0) {
+    throw new Error('The playlist has no playable entries');
+  }
+  return entries;
+}
@@ -0,0 +1,155 @@
+import type { MediaPlayerClass } from 'dashjs';
+import Hls, { type LoaderCallbacks, type LoaderConfiguration, type LoaderContext } from 'hls.js';
+
+// 请求策略：为需要鉴权的视频源在 playlist、分片和密钥请求上添加请求头、token 参数，或把地址改写到其他服务器
+// hls.js、dash.js 和 mpegts.js（FLV）的请求都会应用策略，原生播放（MP4 等）无法添加请求头
+// 同一份策略也会发给 Service Worker（public/sw.js 中有相同的实现），预加载和离线下载的请求同样生效
+
+export type RequestKind = 'playlist' | 'segment' | 'key';
+
+export interface UrlRewriteRule {
+  pattern: string; // 正则表达式，匹配完整 URL
+  replacement: string; // 替换内容，支持 $1 等分组引用
+  types?: RequestKind[]; // 只改写这些类型的请求，不指定时改写所有请求
+}
+
+export interface RequestPolicy {
+  headers?: Record<string, string>; // 添加的请求头
+  query?: Record<string, string>; // 添加到 URL 的查询参数（如 token）
+  rewrites?: UrlRewriteRule[]; // 依次执行的改写规则
+  scope?: string; // 只对匹配该正则的 URL 添加请求头和查询参数，不指定时对所有请求生效
+}
+
+export interface PolicyRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+const REQUEST_KINDS: RequestKind[] = ['playlist', 'segment', 'key'];
+
+function isValidRegExp(pattern: unknown): pattern is string {
+  if (typeof pattern !== 'string' || !pattern) return false;
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every(item => typeof item === 'string');
+}
+
+function isRewriteRule(value: unknown): value is UrlRewriteRule {
+  if (!value || typeof value !== 'object') return false;
+  const rule = value as Record<string, unknown>;
+  return isValidRegExp(rule.pattern)
+    && typeof rule.replacement === 'string'
+    && (rule.types === undefined
+      || (Array.isArray(rule.types) && rule.types.every(type => REQUEST_KINDS.includes(type))));
+}
+
+// 校验配置中的请求策略，有任何无效的部分时返回 undefined
+export function parseRequestPolicy(value: unknown): RequestPolicy | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const { headers, query, rewrites, scope, ...rest } = value as Record<string, unknown>;
+
+  if (Object.keys(rest).length > 0) return undefined;
+  if (headers !== undefined && !isStringRecord(headers)) return undefined;
+  if (query !== undefined && !isStringRecord(query)) return undefined;
+  if (rewrites !== undefined && !(Array.isArray(rewrites) && rewrites.every(isRewriteRule))) return undefined;
+  if (scope !== undefined && !isValidRegExp(scope)) return undefined;
+
+  return {
+    ...(headers ? { headers } : {}),
+    ...(query ? { query } : {}),
+    ...(rewrites ? { rewrites } : {}),
+    ...(scope ? { scope } : {})
+  } as RequestPolicy;
+}
+
+// 合并两个来源的策略：请求头和参数后者覆盖前者，改写规则依次追加
+export function mergeRequestPolicy(base?: RequestPolicy, patch?: RequestPolicy): RequestPolicy | undefined {
+  if (!base || !patch) return patch ?? base;
+  return {
+    headers: { ...base.headers, ...patch.headers },
+    query: { ...base.query, ...patch.query },
+    rewrites: [...(base.rewrites ?? []), ...(patch.rewrites ?? [])],
+    scope: patch.scope ?? base.scope
+  };
+}
+
+export function isRequestPolicyEmpty(policy?: RequestPolicy): boolean {
+  return !policy || (
+    Object.keys(policy.headers ?? {}).length === 0
+    && Object.keys(policy.query ?? {}).length === 0
+    && (policy.rewrites ?? []).length === 0
+  );
+}
+
+// 计算实际请求的地址和请求头：先执行改写规则，再对改写后的地址添加请求头和参数
+export function applyRequestPolicy(policy: RequestPolicy | undefined, url: string, kind: RequestKind): PolicyRequest {
+  if (!policy) return { url, headers: {} };
+
+  let target = url;
+  for (const rule of policy.rewrites ?? []) {
+    if (rule.types && !rule.types.includes(kind)) continue;
+    target = target.replace(new RegExp(rule.pattern), rule.replacement);
+  }
+
+  if (policy.scope && !new RegExp(policy.scope).test(target)) {
+    return { url: target, headers: {} };
+  }
+
+  const query = Object.entries(policy.query ?? {});
+  if (query.length > 0) {
+    try {
+      const parsed = new URL(target);
+      query.forEach(([name, value]) => parsed.searchParams.set(name, value));
+      target = parsed.href;
+    } catch {
+      // 不是完整的 URL（如 data:）时不添加参数
+    }
+  }
+
+  return { url: target, headers: { ...policy.headers } };
+}
+
+// hls.js 的请求类型：密钥请求带有 keyInfo，分片请求带有 frag，其余为 playlist
+function getRequestKind(context: LoaderContext): RequestKind {
+  if ('keyInfo' in context) return 'key';
+  if ('frag' in context) return 'segment';
+  return 'playlist';
+}
+
+// 生成 hls.js 的 loader（同时用于 playlist、分片和密钥），在请求前按策略改写地址并添加请求头
+// 不修改传入的 context，重试时仍从原始地址计算
+export function createPolicyLoader(policy: RequestPolicy): typeof Hls.DefaultConfig.loader {
+  return class PolicyLoader extends Hls.DefaultConfig.loader {
+    load(context: LoaderContext, config: LoaderConfiguration, callbacks: LoaderCallbacks<LoaderContext>) {
+      const request = applyRequestPolicy(policy, context.url, getRequestKind(context));
+      super.load({ ...context, url: request.url, headers: { ...context.headers, ...request.headers } }, config, callbacks);
+    }
+  };
+}
+
+type DashRequestInterceptor = Parameters<MediaPlayerClass['addRequestInterceptor']>[0];
+
+// dash.js 的请求类型：MPD 为 playlist，DRM 许可证为 key，其余（初始化分片、媒体分片等）为 segment
+function getDashRequestKind(customData: unknown): RequestKind {
+  const type = (customData as { request?: { type?: string } } | undefined)?.request?.type;
+  if (type === 'MPD') return 'playlist';
+  if (type === 'license') return 'key';
+  return 'segment';
+}
+
+// 生成 dash.js 的请求拦截器，在请求前按策略改写地址并添加请求头
+// 返回新的请求对象，重试时 dash.js 仍从原始地址计算
+export function createDashRequestInterceptor(policy: RequestPolicy): DashRequestInterceptor {
+  return (request) => {
+    const target = applyRequestPolicy(policy, request.url, getDashRequestKind(request.customData));
+    return Promise.resolve({ ...request, url: target.url, headers: { ...request.headers, ...target.headers } });
+  };
+}
@@ -0,0 +1,50 @@
+// 有次数限制的重试，等待时间按指数增长（1s、2s、4s...）
+
+// 连续重试的最大次数，恢复正常后调用 reset 清零
+export const MAX_RETRIES = 3;
+// 第一次重试前的等待时间
+export const RETRY_BASE_DELAY = 1000;
+
+export interface Retrier {
+  // 安排一次重试，次数用完时返回 false；已有等待中的重试时忽略
+  schedule: (task: () => void) => boolean;
+  reset: () => void;
+  cancel: () => void;
+  readonly attempts: number;
+}
+
+export function getRetryDelay(attempt: number, baseDelay = RETRY_BASE_DELAY): number {
+  return baseDelay * 2 ** attempt;
+}
+
+export function createRetrier(maxRetries = MAX_RETRIES, baseDelay = RETRY_BASE_DELAY): Retrier {
+  let attempts = 0;
+  let timer: number | null = null;
+
+  return {
+    schedule(task) {
+      if (timer !== null) return true;
+      if (attempts >= maxRetries) return false;
+
+      const delay = getRetryDelay(attempts, baseDelay);
+      attempts++;
+      timer = window.setTimeout(() => {
+        timer = null;
+        task();
+      }, delay);
+      return true;
+    },
+    reset() {
+      attempts = 0;
+    },
+    cancel() {
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+    get attempts() {
+      return attempts;
+    }
+  };
+}
@@ -0,0 +1,124 @@
+import type { RequestPolicy } from './requestPolicy';
+
+// 与 Service Worker（public/sw.js）通信：缓存策略、当前播放的视频、请求策略和预加载提示
+
+export interface CachePolicy {
+  maxCacheSize: number; // 在线播放缓存上限（字节），默认根据剩余存储空间计算
+  cacheExpiry: number; // 缓存过期时间（毫秒）
+  cacheableExtensions: string[]; // 需要缓存的文件扩展名，如 .m3u8、.ts（按 URL 路径匹配）
+  cacheableContentTypes: string[]; // 扩展名不匹配时按响应的 Content-Type 缓存
+  prefetchSegments: number; // 预加载已缓冲位置之后的分片数，0 表示不预加载
+}
+
+export interface PrefetchHint {
+  position: number; // 当前播放位置（秒）
+  bufferedEnd: number; // 当前位置所在缓冲区间的结束位置（秒）
+  bandwidth: number; // 估算带宽（bps）
+  playing: boolean; // 暂停时 Service Worker 会停止预加载
+  playlists: string[]; // 正在使用的 media playlist（视频和音轨）
+  closed?: boolean; // 播放器已销毁
+}
+
+// 当前页面的请求由谁响应：在线缓存、离线下载还是网络（切换视频时清零）
+export interface CacheStats {
+  cache: number;
+  offline: number;
+  network: number;
+  last: { url: string; source: 'cache' | 'offline' | 'network'; time: number } | null;
+}
+
+// 字段为 null 时恢复默认值，未传的字段保持不变
+export type CachePolicyUpdate = { [K in keyof CachePolicy]?: CachePolicy[K] | null };
+
+interface WorkerResponse {
+  success: boolean;
+  policy?: CachePolicy;
+  stats?: CacheStats;
+  error?: string;
+}
+
+const REQUEST_TIMEOUT = 5000;
+
+function getController(): ServiceWorker | null {
+  return ('serviceWorker' in navigator && navigator.serviceWorker.controller) || null;
+}
+
+// 发送请求并取回复中的 key 字段
+function request<K extends 'policy' | 'stats'>(
+  message: Record<string, unknown>,
+  key: K
+): Promise<NonNullable<WorkerResponse[K]>> {
+  const controller = getController();
+  if (!controller) {
+    return Promise.reject(new Error('Service Worker is not available'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => {
+      channel.port1.close();
+      reject(new Error('Service Worker did not respond'));
+    }, REQUEST_TIMEOUT);
+
+    channel.port1.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      clearTimeout(timer);
+      channel.port1.close();
+      const value = event.data[key];
+      if (event.data.success && value) {
+        resolve(value as NonNullable<WorkerResponse[K]>);
+      } else {
+        reject(new Error(event.data.error || 'Unknown error'));
+      }
+    };
+
+    controller.postMessage(message, [channel.port2]);
+  });
+}
+
+// 修改缓存策略，返回生效后的完整策略
+export function setCachePolicy(policy: CachePolicyUpdate): Promise<CachePolicy> {
+  return request({ type: 'SET_CACHE_POLICY', policy }, 'policy');
+}
+
+// 发送播放器配置中的缓存策略；首次打开页面时 Service Worker 还没有接管页面，等到接管后再发送
+export function applyCachePolicy(policy: CachePolicyUpdate): void {
+  if (!('serviceWorker' in navigator)) return;
+  const send = () => {
+    setCachePolicy(policy).catch((e) => {
+      console.warn('[SW] Failed to set cache policy:', e);
+    });
+  };
+  if (getController()) {
+    send();
+  } else {
+    navigator.serviceWorker.addEventListener('controllerchange', send, { once: true });
+  }
+}
+
+export function getCachePolicy(): Promise<CachePolicy> {
+  return request({ type: 'GET_CACHE_POLICY' }, 'policy');
+}
+
+export function getCacheStats(): Promise<CacheStats> {
+  return request({ type: 'GET_CACHE_STATS' }, 'stats');
+}
+
+// 告诉 Service Worker 当前页面播放的视频，缓存会记录所属视频，切换视频时按视频清理
+export function setCurrentVideo(url: string): void {
+  getController()?.postMessage({ type: 'SET_CURRENT_VIDEO', url });
+}
+
+// 设置当前页面的请求策略，Service Worker 预加载和离线下载时使用（不传时清除）
+export function setRequestPolicy(policy?: RequestPolicy): void {
+  getController()?.postMessage({ type: 'SET_REQUEST_POLICY', policy: policy ?? null });
+}
+
+// 预加载下一集（HLS）的开头，缓存归属于下一集，切换视频时不会被当作上一集的缓存清理
+export function prefetchVideo(url: string, maxHeight?: number): void {
+  getController()?.postMessage({ type: 'PREFETCH_VIDEO', url, maxHeight });
+}
+
+// 发送播放状态，Service Worker 据此预加载后续分片
+export function sendPrefetchHint(hint: PrefetchHint): void {
+  getController()?.postMessage({ type: 'PREFETCH_HINT', ...hint });
+}
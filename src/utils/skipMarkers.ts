@@ -0,0 +1,71 @@
+import { scopedStorageKey } from './storage';
+
+// 片头/片尾标记：URL 参数指定，或由观众在设置面板中标记并按剧集保存（localStorage）
+
+export interface SkipMarkers {
+  introStart?: number; // 片头开始（秒），只设置了 introEnd 时视为 0
+  introEnd?: number; // 片头结束（秒）
+  outroStart?: number; // 片尾开始（秒）
+}
+
+interface StoredMarkers extends SkipMarkers {
+  updatedAt: number;
+}
+
+const STORAGE_KEY = 'artplayer_skip_markers';
+// 最多保存的剧集数，超出时删除最久未更新的
+const MAX_SERIES = 100;
+
+function readAll(storageKey?: string): Record<string, StoredMarkers> {
+  try {
+    const value = JSON.parse(localStorage.getItem(scopedStorageKey(STORAGE_KEY, storageKey)) || '{}');
+    return value && typeof value === 'object' ? value : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeAll(all: Record<string, StoredMarkers>, storageKey?: string): void {
+  try {
+    localStorage.setItem(scopedStorageKey(STORAGE_KEY, storageKey), JSON.stringify(all));
+  } catch (e) {
+    console.warn('Failed to save skip markers:', e);
+  }
+}
+
+// 解析时间参数（秒），无效时返回 undefined
+export function parseMarkerTime(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+export function hasSkipMarkers(markers: SkipMarkers): boolean {
+  return markers.introEnd !== undefined || markers.outroStart !== undefined;
+}
+
+export function getSeriesMarkers(series: string, storageKey?: string): SkipMarkers {
+  const stored = readAll(storageKey)[series];
+  if (!stored) return {};
+  const { introStart, introEnd, outroStart } = stored;
+  return { introStart, introEnd, outroStart };
+}
+
+// 保存剧集的标记，全部为空时删除
+export function saveSeriesMarkers(series: string, markers: SkipMarkers, storageKey?: string): void {
+  const all = readAll(storageKey);
+  if (!hasSkipMarkers(markers) && markers.introStart === undefined) {
+    delete all[series];
+  } else {
+    all[series] = { ...markers, updatedAt: Date.now() };
+  }
+
+  const keys = Object.keys(all);
+  if (keys.length > MAX_SERIES) {
+    keys
+      .sort((a, b) => all[a].updatedAt - all[b].updatedAt)
+      .slice(0, keys.length - MAX_SERIES)
+      .forEach(key => delete all[key]);
+  }
+  writeAll(all, storageKey);
+}
@@ -0,0 +1,4 @@
+// 同一页面有多个播放器时，localStorage 中的 key 按实例的 storageKey 区分，未指定时使用原来的 key
+export function scopedStorageKey(key: string, storageKey?: string): string {
+  return storageKey ? `${key}:${storageKey}` : key;
+}
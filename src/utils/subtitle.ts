@@ -0,0 +1,309 @@
+// 外挂字幕：解析 URL 参数、下载并统一转换为 WebVTT
+
+export interface SubtitleTrack {
+  url: string;
+  label: string;
+  lang?: string;
+}
+
+export type SubtitleFormat = 'vtt' | 'srt' | 'ass';
+
+interface Cue {
+  start: number; // 秒
+  end: number;
+  text: string; // 已转义的 HTML，只包含白名单标签
+}
+
+// 未处理的字幕块，text 为原始文本
+export interface RawCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// 解析单个 subtitle 参数：url|label|lang，label 和 lang 可省略
+export function parseSubtitleParam(value: string, index: number): SubtitleTrack | null {
+  const [url, label, lang] = value.split('|').map(part => part.trim());
+  if (!url) return null;
+
+  return {
+    url,
+    label: label || lang || `Subtitle ${index + 1}`,
+    lang: lang || undefined
+  };
+}
+
+// 根据扩展名判断字幕格式，无法判断时根据内容判断
+export function detectSubtitleFormat(url: string, text: string): SubtitleFormat {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase();
+  if (extension === 'vtt' || extension === 'srt') return extension;
+  if (extension === 'ass' || extension === 'ssa') return 'ass';
+
+  const head = text.trimStart().slice(0, 100);
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (head.startsWith('[Script Info]')) return 'ass';
+  return 'srt';
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// 把 #RGB / #RRGGBB / 颜色名转为安全的颜色值，不合法时返回 null
+function safeColor(value: string): string | null {
+  const color = value.trim().replace(/^["']|["']$/g, '');
+  return /^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(color) || /^[a-z]{3,20}$/i.test(color) ? color : null;
+}
+
+// 清理 SRT/VTT 字幕文本：转义所有内容，只保留 b/i/u 和 <font color>
+export function sanitizeCueText(text: string): string {
+  let result = '';
+  let lastIndex = 0;
+  const openFonts: boolean[] = [];
+
+  for (const match of text.matchAll(/<[^>]*>/g)) {
+    result += escapeHtml(text.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    const tag = match[0].toLowerCase();
+    const simple = tag.match(/^<(\/?)([biu])>$/);
+    if (simple) {
+      result += `<${simple[1]}${simple[2]}>`;
+      continue;
+    }
+
+    if (tag.startsWith('<font')) {
+      const color = safeColor(match[0].match(/color\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i)?.[1] ?? '');
+      openFonts.push(!!color);
+      if (color) result += `<span style="color:${color}">`;
+    } else if (tag === '</font>') {
+      if (openFonts.pop()) result += '</span>';
+    }
+    // 其余标签（<c.xxx>、<v name>、时间戳等）直接丢弃
+  }
+
+  result += escapeHtml(text.slice(lastIndex));
+  return result + '</span>'.repeat(openFonts.filter(Boolean).length);
+}
+
+// 解析 hh:mm:ss,mmm / mm:ss.mmm 形式的时间
+export function parseTimestamp(value: string): number {
+  const parts = value.trim().replace(',', '.').split(':');
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+function formatTimestamp(seconds: number): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor(ms / 60000) % 60;
+  const s = Math.floor(ms / 1000) % 60;
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`;
+}
+
+function cuesToVtt(cues: Cue[]): string {
+  const body = cues
+    .filter(cue => cue.text && cue.end > cue.start)
+    .map(cue => {
+      // 字幕内容中不能出现空行和 -->
+      const text = cue.text
+        .replace(/-->/g, '--&gt;')
+        .split('\n')
+        .filter(line => line.trim())
+        .join('\n');
+      return `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${text}`;
+    })
+    .join('\n\n');
+
+  return `WEBVTT\n\n${body}\n`;
+}
+
+// SRT 与 VTT 的字幕块结构相同，统一按块解析（缩略图等 VTT 轨道也使用）
+export function parseCueBlocks(text: string): RawCue[] {
+  const cues: RawCue[] = [];
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue; // 序号、WEBVTT 头、NOTE、STYLE 等
+
+    const [start, rest] = lines[timingIndex].split('-->');
+    const end = rest.trim().split(/\s+/)[0];
+    cues.push({
+      start: parseTimestamp(start),
+      end: parseTimestamp(end),
+      text: lines.slice(timingIndex + 1).join('\n')
+    });
+  }
+
+  return cues;
+}
+
+function parseBlocks(text: string): Cue[] {
+  return parseCueBlocks(text).map(cue => ({ ...cue, text: sanitizeCueText(cue.text) }));
+}
+
+export function srtToVtt(text: string): string {
+  return cuesToVtt(parseBlocks(text));
+}
+
+// VTT 重新解析一遍，丢弃 NOTE/STYLE 块并清理字幕文本
+export function sanitizeVtt(text: string): string {
+  return cuesToVtt(parseBlocks(text));
+}
+
+// ===== ASS / SSA =====
+
+interface AssStyle {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  color: string | null;
+}
+
+// ASS 颜色格式为 &HAABBGGRR 或 &HBBGGRR
+function assColorToHex(value: string): string | null {
+  const hex = value.replace(/&H|&/gi, '').padStart(6, '0').slice(-6);
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return null;
+  const color = `#${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}`.toLowerCase();
+  // 白色是默认字幕颜色，无需额外标记
+  return color === '#ffffff' ? null : color;
+}
+
+function assFlag(value: string | undefined): boolean {
+  return value !== undefined && value.trim() !== '0';
+}
+
+function renderRun(text: string, style: AssStyle): string {
+  if (!text) return '';
+  let html = escapeHtml(text);
+  if (style.color) html = `<span style="color:${style.color}">${html}</span>`;
+  if (style.underline) html = `<u>${html}</u>`;
+  if (style.italic) html = `<i>${html}</i>`;
+  if (style.bold) html = `<b>${html}</b>`;
+  return html;
+}
+
+// 把 ASS 对话文本转换为 HTML，保留粗体、斜体、下划线和颜色
+function convertAssText(text: string, baseStyle: AssStyle, styles: Map<string, AssStyle>): string {
+  let style = { ...baseStyle };
+  let drawing = false;
+  let result = '';
+
+  for (const part of text.split(/(\{[^}]*\})/)) {
+    if (part.startsWith('{') && part.endsWith('}')) {
+      for (const tag of part.slice(1, -1).split('\\').slice(1)) {
+        // \r 后面直接跟样式名，需要单独处理
+        if (tag.startsWith('r')) {
+          style = { ...(styles.get(tag.slice(1).trim()) ?? baseStyle) };
+          continue;
+        }
+
+        const [, name, value] = tag.match(/^(\d?[a-z]+)(.*)$/i) ?? [];
+        switch (name) {
+          // 标签不带值时恢复为样式默认值；\b 也可以是字重（>= 600 视为粗体）
+          case 'b':
+            style.bold = value === '' ? baseStyle.bold : value === '1' || Number(value) >= 600;
+            break;
+          case 'i':
+            style.italic = value === '' ? baseStyle.italic : assFlag(value);
+            break;
+          case 'u':
+            style.underline = value === '' ? baseStyle.underline : assFlag(value);
+            break;
+          case 'c':
+          case '1c':
+            style.color = value ? assColorToHex(value) : baseStyle.color;
+            break;
+          case 'p':
+            drawing = value !== '0';
+            break;
+        }
+      }
+      continue;
+    }
+
+    // 绘图指令不是文字，直接跳过
+    if (drawing) continue;
+
+    const lines = part.replace(/\\h/g, ' ').split(/\\[Nn]/);
+    result += lines.map(line => renderRun(line, style)).join('\n');
+  }
+
+  return result;
+}
+
+export function assToVtt(text: string): string {
+  const styles = new Map<string, AssStyle>();
+  const cues: Cue[] = [];
+  let section = '';
+  let format: string[] = [];
+  const defaultStyle: AssStyle = { bold: false, italic: false, underline: false, color: null };
+
+  for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const sectionMatch = line.match(/^\[(.+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      format = [];
+      continue;
+    }
+
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const key = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (key === 'format') {
+      format = value.split(',').map(field => field.trim().toLowerCase());
+      continue;
+    }
+
+    if (section.includes('styles') && key === 'style' && format.length) {
+      const fields = value.split(',');
+      const get = (name: string) => fields[format.indexOf(name)]?.trim();
+      styles.set(get('name') ?? '', {
+        bold: assFlag(get('bold')),
+        italic: assFlag(get('italic')),
+        underline: assFlag(get('underline')),
+        color: assColorToHex(get('primarycolour') ?? '')
+      });
+    }
+
+    if (section === 'events' && key === 'dialogue' && format.length) {
+      // Text 字段是最后一个字段，可能包含逗号
+      const fields = value.split(',');
+      const textField = fields.splice(format.length - 1).join(',');
+      const get = (name: string) => fields[format.indexOf(name)]?.trim() ?? '';
+      const baseStyle = styles.get(get('style')) ?? styles.get('Default') ?? defaultStyle;
+
+      cues.push({
+        start: parseTimestamp(get('start')),
+        end: parseTimestamp(get('end')),
+        text: convertAssText(textField, baseStyle, styles)
+      });
+    }
+  }
+
+  cues.sort((a, b) => a.start - b.start);
+  return cuesToVtt(cues);
+}
+
+// 下载字幕并转换为 VTT 文本
+export async function loadSubtitleAsVtt(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load subtitle: HTTP ${response.status}`);
+  }
+
+  const text = await response.text();
+  switch (detectSubtitleFormat(url, text)) {
+    case 'ass':
+      return assToVtt(text);
+    case 'srt':
+      return srtToVtt(text);
+    default:
+      return sanitizeVtt(text);
+  }
+}
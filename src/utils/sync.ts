@@ -0,0 +1,138 @@
+import { createRetrier } from './retry';
+
+// 一起看：同一房间的播放器之间同步播放、暂停、进度和倍速
+// 同一浏览器的标签页之间使用 BroadcastChannel，跨设备使用 WebSocket 中继（scripts/sync-relay.mjs）
+
+export type SyncRole = 'host' | 'follower' | 'auto';
+
+export interface SyncOptions {
+  room: string;
+  server?: string; // WebSocket 中继地址（ws:// 或 wss://），不指定时只同步同一浏览器的标签页
+  role: SyncRole; // auto：房间里没有主持人时成为主持人
+}
+
+// 播放状态，time 为发送时的播放位置（秒）
+export interface SyncPlaybackState {
+  url: string;
+  time: number;
+  paused: boolean;
+  rate: number;
+}
+
+export type SyncMessage =
+  | { type: 'hello'; from: string } // 加入房间，主持人回复 state
+  | ({ type: 'state'; from: string } & SyncPlaybackState) // 主持人定时发送的状态，成员据此校正
+  | ({ type: 'control'; from: string; action: 'play' | 'pause' | 'seek' | 'rate' } & SyncPlaybackState) // 任何成员的操作
+  | { type: 'claim'; from: string } // 成为主持人，原主持人变为成员
+  | { type: 'bye'; from: string }; // 离开房间
+
+export interface SyncTransport {
+  send: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+// 中继断开后最多重连的次数（间隔 1s、2s、4s...）
+const MAX_RECONNECTS = 8;
+
+const MESSAGE_TYPES: SyncMessage['type'][] = ['hello', 'state', 'control', 'claim', 'bye'];
+
+function isSyncMessage(data: unknown): data is SyncMessage {
+  if (!data || typeof data !== 'object') return false;
+  const message = data as Record<string, unknown>;
+  return MESSAGE_TYPES.includes(message.type as SyncMessage['type']) && typeof message.from === 'string';
+}
+
+// 中继地址只接受 ws:// 和 wss://
+export function parseSyncServer(value?: string | null): string | undefined {
+  if (!value) return undefined;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'ws:' || url.protocol === 'wss:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function parseSyncRole(value?: string | null): SyncRole {
+  return value === 'host' || value === 'follower' ? value : 'auto';
+}
+
+function createBroadcastTransport(room: string, onMessage: (message: SyncMessage) => void): SyncTransport {
+  const channel = new BroadcastChannel(`re-player-sync:${room}`);
+  channel.onmessage = (event: MessageEvent) => {
+    if (isSyncMessage(event.data)) onMessage(event.data);
+  };
+  return {
+    send: message => channel.postMessage(message),
+    close: () => channel.close()
+  };
+}
+
+// WebSocket 断开后按指数退避重连，连接期间的消息直接丢弃（主持人的下一次状态会覆盖）
+function createWebSocketTransport(
+  server: string,
+  room: string,
+  onMessage: (message: SyncMessage) => void,
+  onOpen: () => void
+): SyncTransport {
+  const url = new URL(server);
+  url.searchParams.set('room', room);
+
+  const retrier = createRetrier(MAX_RECONNECTS);
+  let socket: WebSocket | null = null;
+  let closed = false;
+
+  const connect = () => {
+    const current = new WebSocket(url.href);
+    socket = current;
+    current.onopen = () => {
+      retrier.reset();
+      onOpen();
+    };
+    current.onmessage = (event: MessageEvent) => {
+      try {
+        const data = JSON.parse(String(event.data));
+        if (isSyncMessage(data)) onMessage(data);
+      } catch {
+        // 忽略无效的消息
+      }
+    };
+    current.onclose = () => {
+      if (closed || socket !== current) return;
+      socket = null;
+      if (!retrier.schedule(connect)) {
+        console.warn('[Sync] Could not reconnect to the sync server:', server);
+      }
+    };
+  };
+
+  connect();
+
+  return {
+    send: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    },
+    close: () => {
+      closed = true;
+      retrier.cancel();
+      socket?.close();
+      socket = null;
+    }
+  };
+}
+
+// onOpen 在可以发送消息时调用（BroadcastChannel 立即可用，WebSocket 每次连接成功后调用）
+export function createSyncTransport(
+  options: SyncOptions,
+  onMessage: (message: SyncMessage) => void,
+  onOpen: () => void
+): SyncTransport {
+  if (options.server) {
+    return createWebSocketTransport(options.server, options.room, onMessage, onOpen);
+  }
+  const transport = createBroadcastTransport(options.room, onMessage);
+  queueMicrotask(onOpen);
+  return transport;
+}
@@ -0,0 +1,86 @@
+import { parseCueBlocks } from './subtitle';
+
+// 进度条预览图：WebVTT 缩略图轨道（雪碧图 + #xywh= 片段，JW Player / Video.js 的约定）
+
+export interface ThumbnailImage {
+  url: string;
+  // 雪碧图中的区域，未指定时使用整张图片
+  x?: number;
+  y?: number;
+  w?: number;
+  h?: number;
+}
+
+export interface ThumbnailCue extends ThumbnailImage {
+  start: number;
+  end: number;
+}
+
+// 根据时间返回预览图，没有时返回 null
+export type ThumbnailProvider = (time: number) => Promise<ThumbnailImage | null>;
+
+// 解析缩略图 VTT，图片地址相对 VTT 文件解析
+export function parseThumbnailVtt(text: string, baseUrl: string): ThumbnailCue[] {
+  const cues: ThumbnailCue[] = [];
+
+  for (const cue of parseCueBlocks(text)) {
+    const line = cue.text.split('\n').find(item => item.trim());
+    if (!line || !(cue.end > cue.start)) continue;
+
+    const [path, hash = ''] = line.trim().split('#');
+    let url: string;
+    try {
+      url = new URL(path, baseUrl).href;
+    } catch {
+      continue;
+    }
+
+    const match = hash.match(/xywh=(?:pixel:)?(\d+),(\d+),(\d+),(\d+)/);
+    cues.push(match
+      ? { start: cue.start, end: cue.end, url, x: +match[1], y: +match[2], w: +match[3], h: +match[4] }
+      : { start: cue.start, end: cue.end, url });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+// 二分查找包含该时间的缩略图
+export function findThumbnail(cues: ThumbnailCue[], time: number): ThumbnailCue | null {
+  let low = 0;
+  let high = cues.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const cue = cues[mid];
+    if (time < cue.start) {
+      high = mid - 1;
+    } else if (time >= cue.end) {
+      low = mid + 1;
+    } else {
+      return cue;
+    }
+  }
+  return null;
+}
+
+// 第一次需要预览时才下载缩略图轨道
+export function createVttThumbnailProvider(url: string): ThumbnailProvider {
+  let loading: Promise<ThumbnailCue[]> | null = null;
+
+  const load = async () => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load thumbnails: HTTP ${response.status}`);
+    }
+    return parseThumbnailVtt(await response.text(), response.url || url);
+  };
+
+  return async (time) => {
+    if (!loading) {
+      loading = load().catch((e) => {
+        console.error('[Thumbnails] Failed to load thumbnail track:', url, e);
+        return [];
+      });
+    }
+    return findThumbnail(await loading, time);
+  };
+}
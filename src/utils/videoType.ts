@@ -0,0 +1,190 @@
+// 视频类型检测：先看扩展名，识别不了再请求少量数据，根据 Content-Type 和文件头判断
+
+import { applyRequestPolicy, type RequestPolicy } from './requestPolicy';
+
+// 默认类型（检测失败时按 HLS 处理）
+export const DEFAULT_VIDEO_TYPE = 'hls';
+
+// 嗅探时读取的字节数
+const SNIFF_BYTES = 1024;
+// 嗅探请求超时
+const SNIFF_TIMEOUT = 5000;
+
+// 映射扩展名到artplayer支持的类型
+const EXTENSION_TYPES: Record<string, string> = {
+  'm3u8': 'hls',
+  'mpd': 'dash',
+  'flv': 'flv',
+  'mp4': 'mp4',
+  'webm': 'webm',
+  'ogg': 'ogg',
+  'ogv': 'ogg',
+  'mov': 'mov',
+  'mkv': 'mkv',
+  'avi': 'avi',
+  'wmv': 'wmv',
+  'ts': 'ts',
+  'm4v': 'mp4'
+};
+
+// 映射 Content-Type 到类型
+const MIME_TYPES: Record<string, string> = {
+  'application/vnd.apple.mpegurl': 'hls',
+  'application/x-mpegurl': 'hls',
+  'audio/mpegurl': 'hls',
+  'audio/x-mpegurl': 'hls',
+  'application/dash+xml': 'dash',
+  'video/x-flv': 'flv',
+  'video/flv': 'flv',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/ogg': 'ogg',
+  'video/quicktime': 'mov',
+  'video/x-matroska': 'mkv',
+  'video/mp2t': 'ts',
+  'video/x-msvideo': 'avi',
+  'video/x-ms-wmv': 'wmv'
+};
+
+// 嗅探结果按 URL 和请求策略缓存（只缓存服务器正常响应时的结果）
+const sniffCache = new Map<string, Promise<string>>();
+
+// 根据扩展名判断类型（忽略查询参数），识别不了返回 null
+export function getTypeFromExtension(url: string): string | null {
+  let path: string;
+  try {
+    path = new URL(url, window.location.href).pathname;
+  } catch {
+    path = url.split('?')[0];
+  }
+
+  const fileName = path.split('/').pop() || '';
+  if (!fileName.includes('.')) return null;
+
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_TYPES[extension] ?? null;
+}
+
+// 根据 Content-Type 判断类型，通用类型（octet-stream 等）返回 null
+export function getTypeFromContentType(contentType: string | null): string | null {
+  if (!contentType) return null;
+  const mime = contentType.split(';')[0].trim().toLowerCase();
+  return MIME_TYPES[mime] ?? null;
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+// 根据文件头判断类型
+export function getTypeFromBytes(bytes: Uint8Array): string | null {
+  if (bytes.length < 4) return null;
+
+  // 文本格式：TextDecoder 会去掉 BOM，再去掉开头的空白后判断
+  const text = new TextDecoder().decode(bytes.subarray(0, 512)).trimStart();
+  if (text.startsWith('#EXTM3U')) return 'hls';
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<MPD[\s>]/.test(text)) return 'dash';
+
+  if (ascii(bytes, 0, 3) === 'FLV') return 'flv';
+  if (ascii(bytes, 0, 4) === 'OggS') return 'ogg';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'AVI ') return 'avi';
+
+  // ISO BMFF：第 4-8 字节为 ftyp，QuickTime 的品牌为 "qt  "
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    return ascii(bytes, 8, 4) === 'qt  ' ? 'mov' : 'mp4';
+  }
+
+  // EBML 头：根据 DocType 区分 WebM 与 Matroska
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+    return ascii(bytes, 0, Math.min(bytes.length, 64)).includes('webm') ? 'webm' : 'mkv';
+  }
+
+  // MPEG-TS：每 188 字节一个包，以 0x47 同步字节开头
+  if (bytes[0] === 0x47 && (bytes.length < 189 || bytes[188] === 0x47)) return 'ts';
+
+  return null;
+}
+
+// 读取响应的前 maxBytes 个字节，服务器忽略 Range 时不会下载整个文件
+async function readHead(response: Response, maxBytes: number): Promise<Uint8Array> {
+  if (!response.body) {
+    return new Uint8Array(await response.arrayBuffer()).subarray(0, maxBytes);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+  }
+  reader.cancel().catch(() => {});
+
+  const result = new Uint8Array(Math.min(received, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, result.length - offset);
+    result.set(part, offset);
+    offset += part.length;
+    if (offset >= result.length) break;
+  }
+  return result;
+}
+
+// 嗅探请求与播放时的请求相同：按请求策略改写地址、添加请求头和 token；请求失败时抛出错误
+async function sniff(url: string, policy?: RequestPolicy): Promise<string> {
+  const request = applyRequestPolicy(policy, url, 'playlist');
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), SNIFF_TIMEOUT);
+
+  try {
+    // 先用 HEAD 请求看 Content-Type（跨域或不支持 HEAD 时会失败）
+    try {
+      const head = await fetch(request.url, { method: 'HEAD', headers: request.headers, signal: controller.signal });
+      const type = head.ok ? getTypeFromContentType(head.headers.get('content-type')) : null;
+      if (type) return type;
+    } catch {
+      // 继续尝试 GET
+    }
+
+    // 再请求前 1KB 检查 Content-Type 和文件头
+    const response = await fetch(request.url, {
+      headers: { ...request.headers, Range: `bytes=0-${SNIFF_BYTES - 1}` },
+      signal: controller.signal
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const bytes = await readHead(response, SNIFF_BYTES);
+    return getTypeFromBytes(bytes)
+      ?? getTypeFromContentType(response.headers.get('content-type'))
+      ?? DEFAULT_VIDEO_TYPE;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// 通过网络请求检测类型，失败时按 HLS 处理
+// 结果按 URL 和请求策略缓存；网络错误、超时和错误状态码可能是暂时的，不缓存，下次重新检测
+export function sniffVideoType(url: string, policy?: RequestPolicy): Promise<string> {
+  const key = `${url}\n${JSON.stringify(policy ?? null)}`;
+  let pending = sniffCache.get(key);
+  if (!pending) {
+    pending = sniff(url, policy).catch((e) => {
+      sniffCache.delete(key);
+      console.warn('[Player] Failed to sniff video type, falling back to HLS:', e);
+      return DEFAULT_VIDEO_TYPE;
+    });
+    sniffCache.set(key, pending);
+  }
+  return pending;
+}
+
+// 同步检测：手动指定的类型优先，其次是扩展名；识别不了返回 null，需要再调用 sniffVideoType
+export function detectVideoType(url: string, manualType?: string): string | null {
+  return manualType || getTypeFromExtension(url);
+}
@@ -0,0 +1,249 @@
+// 观看记录：保存在 IndexedDB 中，按 URL 哈希索引，记录进度、时长和是否看完
+
+const DB_NAME = 'artplayer-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+
+// 旧版本按 URL 保存进度的 localStorage key 前缀（key 为 Base64 编码的 URL）
+const LEGACY_KEY_PREFIX = 'artplayer_progress_';
+
+// 最多保留的记录数和保留时间，超出后删除最久没看的
+const MAX_RECORDS = 200;
+const MAX_AGE = 90 * 24 * 60 * 60 * 1000;
+
+// 剩余不足 10 秒或播放超过 95% 视为看完
+const COMPLETE_REMAINING = 10;
+const COMPLETE_RATIO = 0.95;
+
+export interface WatchRecord {
+  id: string; // URL 哈希
+  url: string;
+  title?: string;
+  poster?: string;
+  type?: string; // 手动指定的视频类型，重新打开时使用
+  duration: number; // 秒，未知时为 0
+  position: number; // 上次播放位置（秒）
+  lastWatched: number; // 时间戳
+  completed: boolean;
+}
+
+export interface WatchProgress {
+  position: number;
+  duration: number;
+  title?: string;
+  poster?: string;
+  type?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// URL 的稳定哈希（cyrb53），支持任意 Unicode 字符
+export function hashUrl(url: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < url.length; i++) {
+    const ch = url.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+export function isCompleted(position: number, duration: number): boolean {
+  if (!(duration > 0)) return false;
+  return duration - position <= COMPLETE_REMAINING || position / duration >= COMPLETE_RATIO;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// 读取旧版 localStorage 中的进度，写入新建的数据库（只在首次创建数据库时执行一次）
+function migrateLegacyProgress(store: IDBObjectStore): string[] {
+  const migratedKeys: string[] = [];
+  const now = Date.now();
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(LEGACY_KEY_PREFIX)) continue;
+    migratedKeys.push(key);
+
+    try {
+      const url = atob(key.slice(LEGACY_KEY_PREFIX.length));
+      const position = parseFloat(localStorage.getItem(key) || '');
+      if (!url || !(position > 0)) continue;
+
+      const record: WatchRecord = {
+        id: hashUrl(url),
+        url,
+        duration: 0,
+        position,
+        lastWatched: now,
+        completed: false
+      };
+      store.put(record);
+    } catch (e) {
+      console.warn('[History] Failed to migrate legacy progress:', key, e);
+    }
+  }
+
+  return migratedKeys;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    let migratedKeys: string[] = [];
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('lastWatched', 'lastWatched');
+        try {
+          migratedKeys = migrateLegacyProgress(store);
+        } catch (e) {
+          console.warn('[History] Failed to read legacy progress:', e);
+        }
+      }
+    };
+
+    request.onsuccess = () => {
+      // 迁移事务已经提交，可以删除旧的 key
+      migratedKeys.forEach(key => localStorage.removeItem(key));
+      resolve(request.result);
+      pruneHistory(request.result).catch(e => console.warn('[History] Failed to prune history:', e));
+    };
+
+    request.onerror = () => reject(request.error);
+  });
+
+  // 打开失败时允许下次重试
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+// 淘汰过期记录，并只保留最近观看的 MAX_RECORDS 条
+async function pruneHistory(db: IDBDatabase): Promise<void> {
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const index = tx.objectStore(STORE_NAME).index('lastWatched');
+  const expireBefore = Date.now() - MAX_AGE;
+  const total = await requestToPromise(index.count());
+  let excess = total - MAX_RECORDS;
+
+  // 按 lastWatched 从旧到新遍历
+  const cursorRequest = index.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+
+    const record = cursor.value as WatchRecord;
+    if (excess > 0 || record.lastWatched < expireBefore) {
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    }
+  };
+
+  await transactionDone(tx);
+}
+
+// 获取某个视频的观看记录
+export async function getWatchRecord(url: string): Promise<WatchRecord | null> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const record = await requestToPromise(store.get(hashUrl(url))) as WatchRecord | undefined;
+    // 哈希碰撞时 URL 不一致，视为没有记录
+    return record && record.url === url ? record : null;
+  } catch (e) {
+    console.warn('[History] Failed to read watch record:', e);
+    return null;
+  }
+}
+
+// 保存播放进度，同时更新标题、封面和是否看完
+export async function saveWatchProgress(url: string, progress: WatchProgress): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const id = hashUrl(url);
+    const existing = await requestToPromise(store.get(id)) as WatchRecord | undefined;
+    const previous = existing?.url === url ? existing : undefined;
+
+    const duration = Number.isFinite(progress.duration) && progress.duration > 0
+      ? progress.duration
+      : previous?.duration ?? 0;
+    const position = Number.isFinite(progress.position) ? progress.position : 0;
+
+    const record: WatchRecord = {
+      id,
+      url,
+      title: progress.title || previous?.title,
+      poster: progress.poster || previous?.poster,
+      type: progress.type || previous?.type,
+      duration,
+      position,
+      lastWatched: Date.now(),
+      completed: isCompleted(position, duration)
+    };
+    store.put(record);
+
+    await transactionDone(tx);
+  } catch (e) {
+    console.warn('Failed to save play time:', e);
+  }
+}
+
+// 按最近观看时间倒序列出观看记录
+export async function listWatchHistory(): Promise<WatchRecord[]> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const records = await requestToPromise(store.index('lastWatched').getAll()) as WatchRecord[];
+    return records.reverse();
+  } catch (e) {
+    console.warn('[History] Failed to list watch history:', e);
+    return [];
+  }
+}
+
+// 删除一条观看记录
+export async function deleteWatchRecord(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).delete(id);
+  await transactionDone(tx);
+}
+
+// 清空观看记录
+export async function clearWatchHistory(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).clear();
+  await transactionDone(tx);
+}
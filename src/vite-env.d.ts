@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 允许与 iframe 播放器通信的父页面来源，逗号分隔
+  readonly VITE_ALLOWED_ORIGINS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
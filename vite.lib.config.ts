@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+// 库构建：React 组件和 <re-player> 元素，输出到 dist/lib，依赖由使用方安装
+export default defineConfig({
+  plugins: [react()],
+  publicDir: false,
+  build: {
+    outDir: 'dist/lib',
+    lib: {
+      entry: 'src/lib.ts',
+      formats: ['es'],
+      fileName: 're-player',
+      cssFileName: 're-player',
+    },
+    rollupOptions: {
+      external: [/^react(-dom)?(\/|$)/, 'artplayer', 'hls.js', 'dashjs', 'mpegts.js'],
+    },
+  },
+})